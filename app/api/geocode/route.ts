@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { parseCoordinateQuery } from "@/lib/geocoding/coordinates";
+import { getGeocoder } from "@/lib/geocoding";
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+
+  const query = searchParams.get("q")?.trim() ?? "";
+  if (!query || query.length > 200) {
+    return NextResponse.json({ error: "Invalid params" }, { status: 400 });
+  }
+
+  const coordinateResult = parseCoordinateQuery(query);
+  if (coordinateResult) {
+    return NextResponse.json({ results: [coordinateResult] });
+  }
+
+  const lat = Number(searchParams.get("lat"));
+  const lng = Number(searchParams.get("lng"));
+  const hasProximity =
+    searchParams.has("lat") &&
+    searchParams.has("lng") &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lng);
+
+  const geocoderConfig = getGeocoder();
+  if (!geocoderConfig.ok) {
+    return NextResponse.json({ error: geocoderConfig.reason }, { status: 500 });
+  }
+
+  try {
+    const results = await geocoderConfig.geocoder.search(query, {
+      proximity: hasProximity ? { lat, lng } : undefined,
+    });
+    return NextResponse.json({ results });
+  } catch (err) {
+    console.error("Geocoding error", err);
+    return NextResponse.json({ error: "Could not search for that place" }, { status: 502 });
+  }
+}
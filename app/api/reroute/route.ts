@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { ACTIVITIES, ACTIVITY_PROFILES, parseActivity } from "@/lib/routing/activity";
+import { createDurationModel, isValidPace, paceRangeError } from "@/lib/routing/pace";
+import { getRoutingProvider } from "@/lib/routing/providers";
+import type { RoutingWaypoint } from "@/lib/routing/types";
+
+const REROUTE_TIMEOUT_MS = 8000;
+
+function parsePoint(value: string | null): RoutingWaypoint | null {
+  if (!value) return null;
+  const [lng, lat] = value.split(",").map(Number);
+  if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lng, lat };
+}
+
+// Directions from a runner who has strayed back to a point on their route.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+
+  const from = parsePoint(searchParams.get("from"));
+  const to = parsePoint(searchParams.get("to"));
+  if (!from || !to) {
+    return NextResponse.json({ error: 'from and to must be "lng,lat" pairs' }, { status: 400 });
+  }
+
+  // Cyclists are sent back along roads they can ride.
+  const activity = parseActivity(searchParams.get("activity"));
+  if (activity === undefined) {
+    return NextResponse.json(
+      { error: `activity must be one of ${ACTIVITIES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const activityProfile = ACTIVITY_PROFILES[activity];
+
+  const paceParam = searchParams.get("pace")?.trim();
+  const pace = paceParam ? Number(paceParam) : activityProfile.paceSPerKm;
+  if (!isValidPace(pace, activityProfile.paceModel)) {
+    return NextResponse.json(
+      { error: paceRangeError(activityProfile.paceModel) },
+      { status: 400 }
+    );
+  }
+
+  const providerConfig = getRoutingProvider();
+  if (!providerConfig.ok) {
+    return NextResponse.json({ error: providerConfig.reason }, { status: 500 });
+  }
+
+  try {
+    const data = await providerConfig.provider.getDirections([from, to], {
+      profile: activityProfile.routing,
+      signal: AbortSignal.timeout(REROUTE_TIMEOUT_MS),
+    });
+    const route = data.routes[0];
+    if (!route) {
+      return NextResponse.json({ error: "No way back to the route found" }, { status: 404 });
+    }
+
+    const geojson: GeoJSON.Feature<GeoJSON.LineString> = {
+      type: "Feature",
+      properties: {},
+      geometry: { type: "LineString", coordinates: route.coordinates },
+    };
+    return NextResponse.json({
+      geojson,
+      distance_m: route.distance_m,
+      duration_s: createDurationModel(
+        route.distance_m,
+        pace,
+        null,
+        activityProfile.paceModel
+      )(0, route.distance_m),
+    });
+  } catch (err) {
+    console.error("Reroute error", err);
+    return NextResponse.json({ error: "Routing failed" }, { status: 502 });
+  }
+}
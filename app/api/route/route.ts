@@ -1,34 +1,66 @@
 import { NextResponse } from "next/server";
-
-const RUN_PACE_MIN_PER_KM = 6; // assumed running pace for estimates
-
-type MapboxStep = {
-  name?: string;
-  distance?: number;
-  duration?: number;
-  maneuver?: {
-    instruction?: string;
-    location?: [number, number];
-    type?: string;
-    modifier?: string;
-  };
-};
-
-type MapboxLeg = {
-  steps?: MapboxStep[];
-};
-
-type MapboxRoute = {
-  distance: number;
-  geometry: {
-    coordinates: [number, number][];
-  };
-  legs?: MapboxLeg[];
-};
-
-type DirectionsResponse = {
-  routes?: MapboxRoute[];
-};
+import { getElevationSource } from "@/lib/elevation/sources";
+import {
+  ACTIVITIES,
+  ACTIVITY_PROFILES,
+  applyActivityWeights,
+  getToleranceKm,
+  parseActivity,
+  type ActivityProfile,
+  type StepFilter,
+} from "@/lib/routing/activity";
+import { isValidAvoidZone, type AvoidZone } from "@/lib/routing/avoid";
+import { distanceMeters } from "@/lib/routing/geo";
+import { isGenericPathName } from "@/lib/routing/maneuvers";
+import { createDurationModel, isValidPace, paceRangeError } from "@/lib/routing/pace";
+import {
+  MAX_PREFERENCE_WEIGHT,
+  MIN_PREFERENCE_WEIGHT,
+  parseScoringPreferences,
+  PREFERENCE_KEYS,
+  PREFERENCE_PRESETS,
+} from "@/lib/routing/preferences";
+import { getRoutingProvider } from "@/lib/routing/providers";
+import {
+  createRandom,
+  createSeed,
+  deriveSeed,
+  isValidSeed,
+  MAX_SEED,
+  type RandomFn,
+} from "@/lib/routing/random";
+import {
+  getConfidence,
+  countTrafficControls,
+  getElevationForRoute,
+  parseHillPreference,
+  parseSurfacePreference,
+  scoreRoute,
+  segmentKey,
+  toRouteQuality,
+  type RouteMetrics,
+  type RouteQuality,
+  type ScoringContext,
+} from "@/lib/routing/scoring";
+import { getSearchOptions, runWithConcurrency } from "@/lib/routing/search";
+import type {
+  NormalizedRoute,
+  NormalizedStep,
+  RoutingWaypoint,
+} from "@/lib/routing/types";
+import {
+  planLoop,
+  planOutAndBack,
+  planPointToPoint,
+  type RouteMode,
+  type WaypointPlan,
+} from "@/lib/routing/waypoints";
+import { METERS_PER_MILE } from "@/lib/units/format";
+
+const MAX_ROUTE_ALTERNATIVES = 3;
+const MAX_PINNED_WAYPOINTS = 8;
+const MAX_AVOID_ZONES = 10;
+const MAX_AVOID_ZONE_VERTICES = 100;
 
 type RouteStep = {
   instruction: string;
@@ -38,24 +70,15 @@ type RouteStep = {
   type: string | null;
   modifier: string | null;
   name: string | null;
-};
-
-type RouteQuality = {
-  score: number;
-  confidence: "strong" | "solid" | "mixed";
-  distance_diff_km: number;
-  overlap_penalty_km: number;
-  smoothness_penalty_km: number;
-  path_ratio: number;
-  scenic_ratio: number;
-  arterial_ratio: number;
-  turn_count: number;
-  highlight: string;
-  warnings: string[];
+  // Traffic lights and stop or yield signs along the step.
+  traffic_signals: number;
+  stop_signs: number;
 };
 
 type RouteVariant = {
   id: string;
+  mode: RouteMode;
+  pins: RoutingWaypoint[]; // must-visit points, in the order the route visits them
   geojson: GeoJSON.Feature<GeoJSON.LineString>;
   distance_m: number;
   duration_s: number;
@@ -63,194 +86,11 @@ type RouteVariant = {
   quality: RouteQuality;
 };
 
-type RankedRoute = {
-  route: MapboxRoute;
-  score: number;
-  routeKm: number;
-  distanceDiffKm: number;
-  weightedDistanceDiffKm: number;
-  smoothnessPenaltyKm: number;
-  overlapPenaltyKm: number;
-  hasMicroSpur: boolean;
-  pathRatio: number;
-  scenicRatio: number;
-  arterialRatio: number;
-  turnCount: number;
+type RankedRoute = RouteMetrics & {
+  route: NormalizedRoute;
+  waypoints: RoutingWaypoint[];
 };
 
-function metersToKm(m: number) {
-  return m / 1000;
-}
-
-function distanceMeters(a: [number, number], b: [number, number]) {
-  const R = 6371000; // meters
-  const lat1 = (a[1] * Math.PI) / 180;
-  const lat2 = (b[1] * Math.PI) / 180;
-  const dLat = lat2 - lat1;
-  const dLng = ((b[0] - a[0]) * Math.PI) / 180;
-
-  const h =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1) *
-      Math.cos(lat2) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-
-  return 2 * R * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
-}
-
-function snapCoord(value: number, precision: number) {
-  return (Math.round(value / precision) * precision).toFixed(5);
-}
-
-function segmentKey(
-  a: [number, number],
-  b: [number, number],
-  precision = 0.0002 // ~20m
-) {
-  const aKey = `${snapCoord(a[0], precision)},${snapCoord(a[1], precision)}`;
-  const bKey = `${snapCoord(b[0], precision)},${snapCoord(b[1], precision)}`;
-  return aKey < bKey ? `${aKey}|${bKey}` : `${bKey}|${aKey}`;
-}
-
-function getRouteOverlapStats(route: MapboxRoute) {
-  const coords = route.geometry?.coordinates ?? [];
-  if (coords.length < 3) {
-    return {
-      penaltyKm: 0,
-      microSpurMeters: 0,
-      tailSpurMeters: 0,
-    };
-  }
-
-  const seenSegments = new Set<string>();
-  const recentSegments: Array<{
-    key: string;
-    meters: number;
-    cumMetersBefore: number;
-  }> = [];
-  let totalMeters = 0;
-  let overlapMeters = 0;
-  let localBacktrackMeters = 0;
-  let repeatedRunMeters = 0;
-  let shortRepeatedRunMeters = 0;
-  let microSpurMeters = 0;
-  let tailSpurMeters = 0;
-  let repeatedRunStartMeters = 0;
-
-  const flushRepeatedRun = () => {
-    // Allow long out-and-back returns, but penalize short overlap bursts
-    // that usually come from pointless little reversals.
-    if (repeatedRunMeters > 0 && repeatedRunMeters < 180) {
-      shortRepeatedRunMeters += repeatedRunMeters;
-    }
-    // Extra penalty for short overlap bursts near the end of the route,
-    // which tend to be "just add a few meters" tails.
-    const repeatedRunProgress = totalMeters > 0 ? repeatedRunStartMeters / totalMeters : 0;
-    if (repeatedRunMeters > 0 && repeatedRunMeters < 260 && repeatedRunProgress >= 0.65) {
-      tailSpurMeters += repeatedRunMeters;
-    }
-    repeatedRunMeters = 0;
-    repeatedRunStartMeters = 0;
-  };
-
-  for (let i = 1; i < coords.length; i++) {
-    const prev = coords[i - 1];
-    const curr = coords[i];
-    const segmentMeters = distanceMeters(prev, curr);
-    if (segmentMeters < 5) continue;
-
-    totalMeters += segmentMeters;
-    const key = segmentKey(prev, curr);
-
-    if (seenSegments.has(key)) {
-      overlapMeters += segmentMeters;
-      if (repeatedRunMeters === 0) {
-        repeatedRunStartMeters = totalMeters - segmentMeters;
-      }
-      repeatedRunMeters += segmentMeters;
-
-      // If a segment repeats very soon after it was first used, it's usually
-      // a tiny out-and-back spur rather than a deliberate long return.
-      const recentMatch = [...recentSegments].reverse().find((s) => s.key === key);
-      if (recentMatch) {
-        localBacktrackMeters += segmentMeters;
-
-        const enclosedMeters = totalMeters - segmentMeters - recentMatch.cumMetersBefore;
-        const isTinySpurSegment = segmentMeters <= 90;
-        const isImmediateReversalArea = enclosedMeters <= 180;
-        if (isTinySpurSegment && isImmediateReversalArea) {
-          microSpurMeters += segmentMeters;
-        }
-      }
-    } else {
-      flushRepeatedRun();
-      seenSegments.add(key);
-    }
-
-    recentSegments.push({
-      key,
-      meters: segmentMeters,
-      cumMetersBefore: totalMeters - segmentMeters,
-    });
-    if (recentSegments.length > 14) {
-      recentSegments.shift();
-    }
-  }
-
-  flushRepeatedRun();
-
-  if (totalMeters <= 0) {
-    return {
-      penaltyKm: 0,
-      microSpurMeters,
-      tailSpurMeters,
-    };
-  }
-
-  const overlapRatio = overlapMeters / totalMeters;
-  const localBacktrackKm = localBacktrackMeters / 1000;
-  const shortRepeatedRunKm = shortRepeatedRunMeters / 1000;
-  const microSpurKm = microSpurMeters / 1000;
-  const tailSpurKm = tailSpurMeters / 1000;
-
-  // General overlap remains a small penalty. Local short reversals get
-  // extra weight because they feel much worse to run than a long return leg.
-  const penaltyKm =
-    overlapRatio * 0.9 +
-    localBacktrackKm * 3.5 +
-    shortRepeatedRunKm * 1.8 +
-    microSpurKm * 6 +
-    tailSpurKm * 9;
-
-  return {
-    penaltyKm,
-    microSpurMeters,
-    tailSpurMeters,
-  };
-}
-
-function isGenericPathName(name: string | null) {
-  if (!name) return true;
-  const normalized = name.trim().toLowerCase();
-  if (!normalized) return true;
-
-  const genericTerms = [
-    "walkway",
-    "crosswalk",
-    "sidewalk",
-    "path",
-    "trail",
-    "footway",
-    "pedestrian",
-    "steps",
-    "stair",
-    "bridge",
-  ];
-
-  return genericTerms.some((term) => normalized.includes(term));
-}
-
 function toSentence(text: string) {
   const trimmed = text.trim();
   if (!trimmed) return "Continue.";
@@ -258,11 +98,11 @@ function toSentence(text: string) {
   return `${trimmed}.`;
 }
 
-function formatInstruction(step: MapboxStep) {
-  const maneuverType = step.maneuver?.type ?? null;
-  const modifier = step.maneuver?.modifier ?? null;
-  const stepName = step.name?.trim() || null;
-  const raw = step.maneuver?.instruction?.trim() || "";
+function formatInstruction(step: NormalizedStep) {
+  const maneuverType = step.maneuver.type;
+  const modifier = step.maneuver.modifier;
+  const stepName = step.name;
+  const raw = step.maneuver.instruction ?? "";
   const hasSpecificName = !!stepName && !isGenericPathName(stepName);
 
   if (maneuverType === "arrive") return "You have arrived at your destination.";
@@ -302,12 +142,12 @@ function isCoreManeuverType(type: string | null) {
   );
 }
 
-function simplifyRouteSteps(steps: RouteStep[]) {
+function simplifyRouteSteps(steps: RouteStep[], filter: StepFilter) {
   if (steps.length <= 2) return steps;
 
   const lastIdx = steps.length - 1;
 
-  const filtered = steps.filter((step, idx) => {
+  const isShown = (step: RouteStep, idx: number) => {
     const isFirst = idx === 0;
     const isLast = idx === lastIdx;
     const isDepart = step.type === "depart";
@@ -320,21 +160,36 @@ function simplifyRouteSteps(steps: RouteStep[]) {
     if (isDepart || isArrive) return false; // remove waypoint boundary noise
 
     // Drop near-zero connector steps unless this is the final instruction.
-    if (step.distance_m < 8) return false;
+    if (step.distance_m < filter.connectorM) return false;
 
     // Keep meaningful named-road maneuvers even if shorter.
-    if (hasSpecificName && isCore && step.distance_m >= 20) return true;
+    if (hasSpecificName && isCore && step.distance_m >= filter.namedTurnM) return true;
 
     // Hide short generic path instructions (walkway/crosswalk/etc).
-    if (hasGenericName && step.distance_m < 140) return false;
+    if (hasGenericName && step.distance_m < filter.genericPathM) return false;
 
     // Hide tiny turn instructions unless they involve a specific road name.
-    if (!hasSpecificName && isCore && step.distance_m < 45) return false;
+    if (!hasSpecificName && isCore && step.distance_m < filter.unnamedTurnM) return false;
 
     // Non-core guidance must cover a reasonable stretch to be useful.
-    if (!isCore && step.distance_m < 220) return false;
+    if (!isCore && step.distance_m < filter.guidanceM) return false;
 
     return true;
+  };
+
+  const filtered: RouteStep[] = [];
+  steps.forEach((step, idx) => {
+    if (isShown(step, idx)) {
+      filtered.push(step);
+      return;
+    }
+    // Lights on a hidden step are still on the way, so they show on the
+    // instruction before it. The first step is always shown.
+    const previous = filtered[filtered.length - 1];
+    if (previous) {
+      previous.traffic_signals += step.traffic_signals;
+      previous.stop_signs += step.stop_signs;
+    }
   });
 
   const merged: RouteStep[] = [];
@@ -349,6 +204,8 @@ function simplifyRouteSteps(steps: RouteStep[]) {
     ) {
       lastMerged.distance_m += step.distance_m;
       lastMerged.duration_s += step.duration_s;
+      lastMerged.traffic_signals += step.traffic_signals;
+      lastMerged.stop_signs += step.stop_signs;
       continue;
     }
 
@@ -371,14 +228,16 @@ function simplifyRouteSteps(steps: RouteStep[]) {
       prevDir &&
       currDir &&
       prevDir !== currDir &&
-      (previousStep.distance_m ?? 0) <= 70 &&
-      (step.distance_m ?? 0) <= 70 &&
+      (previousStep.distance_m ?? 0) <= filter.zigZagM &&
+      (step.distance_m ?? 0) <= filter.zigZagM &&
       isGenericPathName(previousStep.name) &&
       isGenericPathName(step.name);
 
     if (isOppositeZigZag) {
       previousStep.distance_m += step.distance_m;
       previousStep.duration_s += step.duration_s;
+      previousStep.traffic_signals += step.traffic_signals;
+      previousStep.stop_signs += step.stop_signs;
       previousStep.instruction = "Continue straight.";
       previousStep.type = null;
       previousStep.modifier = null;
@@ -392,176 +251,14 @@ function simplifyRouteSteps(steps: RouteStep[]) {
   return merged;
 }
 
-function getRouteSmoothnessPenaltyKm(route: MapboxRoute) {
-  const steps = route.legs?.flatMap((leg) => leg.steps || []) ?? [];
-
-  let shortTurnCount = 0;
-  let totalTurnCount = 0;
-  let ultraShortTurnCount = 0;
-  let uTurnCount = 0;
-
-  for (const step of steps) {
-    const maneuverType = step?.maneuver?.type ?? "";
-    const maneuverModifier = step?.maneuver?.modifier ?? "";
-    const isTurnLike =
-      maneuverType.includes("turn") ||
-      maneuverType === "fork" ||
-      maneuverType === "roundabout";
-
-    if (!isTurnLike) continue;
-
-    totalTurnCount += 1;
-    if (maneuverModifier.includes("uturn")) {
-      uTurnCount += 1;
-    }
-    const stepDistance = step?.distance ?? 0;
-    if (stepDistance < 25) {
-      ultraShortTurnCount += 1;
-    }
-    if (stepDistance < 45) {
-      shortTurnCount += 1;
-    }
-  }
-
-  const routeKm = Math.max(metersToKm(route.distance ?? 0), 0.1);
-  const turnDensity = totalTurnCount / routeKm;
-
-  // Convert maneuver complexity into a km-equivalent cost so distance can still dominate.
-  // Short turns and turn-dense routes are penalized more heavily.
-  return (
-    uTurnCount * 0.45 +
-    ultraShortTurnCount * 0.2 +
-    shortTurnCount * 0.14 +
-    totalTurnCount * 0.03 +
-    Math.max(0, turnDensity - 2.4) * 0.12
-  );
+// The candidates that pass, or all of them when none do.
+function preferPassing(candidates: RankedRoute[], passes: (candidate: RankedRoute) => boolean) {
+  const passing = candidates.filter(passes);
+  return passing.length > 0 ? passing : candidates;
 }
 
-function getRouteRoadFeelStats(route: MapboxRoute) {
-  const steps = route.legs?.flatMap((leg) => leg.steps || []) ?? [];
-  let totalDistance = 0;
-  let pathDistance = 0;
-  let scenicDistance = 0;
-  let arterialDistance = 0;
-  let turnCount = 0;
-
-  const scenicTerms = [
-    "park",
-    "greenway",
-    "trail",
-    "river",
-    "lake",
-    "beach",
-    "waterfront",
-    "promenade",
-    "creek",
-    "forest",
-    "seawall",
-  ];
-  const arterialTerms = [
-    "highway",
-    "freeway",
-    "expressway",
-    "motorway",
-    "ramp",
-    "state route",
-    "county road",
-  ];
-
-  for (const step of steps) {
-    const stepDistance = Math.max(step.distance ?? 0, 0);
-    const name = step.name?.trim().toLowerCase() ?? "";
-    totalDistance += stepDistance;
-
-    const isTurnLike =
-      step.maneuver?.type === "turn" ||
-      step.maneuver?.type === "fork" ||
-      step.maneuver?.type === "merge" ||
-      step.maneuver?.type === "roundabout";
-
-    if (isTurnLike) {
-      turnCount += 1;
-    }
-
-    if (!name) continue;
-
-    if (isGenericPathName(name)) {
-      pathDistance += stepDistance;
-    }
-
-    if (scenicTerms.some((term) => name.includes(term))) {
-      scenicDistance += stepDistance;
-    }
-
-    if (arterialTerms.some((term) => name.includes(term))) {
-      arterialDistance += stepDistance;
-    }
-  }
-
-  if (totalDistance <= 0) {
-    return {
-      pathRatio: 0,
-      scenicRatio: 0,
-      arterialRatio: 0,
-      turnCount,
-    };
-  }
-
-  return {
-    pathRatio: pathDistance / totalDistance,
-    scenicRatio: scenicDistance / totalDistance,
-    arterialRatio: arterialDistance / totalDistance,
-    turnCount,
-  };
-}
-
-function getAsymmetricDistancePenaltyKm(routeKm: number, targetKm: number) {
-  const diffKm = routeKm - targetKm;
-
-  if (diffKm >= 0) {
-    // Slightly long is preferable to slightly short.
-    return diffKm * 0.35;
-  }
-
-  // Penalize undershooting more than overshooting.
-  return Math.abs(diffKm) * 0.95;
-}
-
-function scoreRoute(route: MapboxRoute, targetKm: number) {
-  const routeKm = metersToKm(route.distance ?? 0);
-  const distanceDiffKm = Math.abs(routeKm - targetKm);
-  const smoothnessPenaltyKm = getRouteSmoothnessPenaltyKm(route);
-  const overlapStats = getRouteOverlapStats(route);
-  const overlapPenaltyKm = overlapStats.penaltyKm;
-  const weightedDistanceDiffKm = getAsymmetricDistancePenaltyKm(routeKm, targetKm);
-  const hasMicroSpur =
-    overlapStats.microSpurMeters >= 20 || overlapStats.tailSpurMeters >= 35;
-  const roadFeel = getRouteRoadFeelStats(route);
-  const sceneryBonusKm = roadFeel.pathRatio * 0.4 + roadFeel.scenicRatio * 0.55;
-  const arterialPenaltyKm = roadFeel.arterialRatio * 0.75;
-
-  return {
-    routeKm,
-    distanceDiffKm,
-    weightedDistanceDiffKm,
-    smoothnessPenaltyKm,
-    overlapPenaltyKm,
-    hasMicroSpur,
-    pathRatio: roadFeel.pathRatio,
-    scenicRatio: roadFeel.scenicRatio,
-    arterialRatio: roadFeel.arterialRatio,
-    turnCount: roadFeel.turnCount,
-    score:
-      weightedDistanceDiffKm +
-      smoothnessPenaltyKm +
-      overlapPenaltyKm +
-      arterialPenaltyKm -
-      sceneryBonusKm,
-  };
-}
-
-function buildRouteSignature(route: MapboxRoute) {
-  const coords = route.geometry.coordinates;
+function buildRouteSignature(route: NormalizedRoute) {
+  const coords = route.coordinates;
   if (coords.length === 0) return "empty";
   const sampleEvery = Math.max(1, Math.floor(coords.length / 10));
   return coords
@@ -570,158 +267,170 @@ function buildRouteSignature(route: MapboxRoute) {
     .join("|");
 }
 
-function getConfidence(metrics: RankedRoute): RouteQuality["confidence"] {
-  if (
-    metrics.distanceDiffKm <= 0.25 &&
-    metrics.overlapPenaltyKm <= 0.2 &&
-    metrics.smoothnessPenaltyKm <= 0.65 &&
-    metrics.arterialRatio <= 0.08
-  ) {
-    return "strong";
-  }
+function getRouteSegmentMeters(route: NormalizedRoute) {
+  const coords = route.coordinates;
+  const segments = new Map<string, number>();
 
-  if (
-    metrics.distanceDiffKm <= 0.55 &&
-    metrics.overlapPenaltyKm <= 0.45 &&
-    metrics.smoothnessPenaltyKm <= 1.1 &&
-    metrics.arterialRatio <= 0.18
-  ) {
-    return "solid";
+  for (let i = 1; i < coords.length; i++) {
+    const segmentMeters = distanceMeters(coords[i - 1], coords[i]);
+    if (segmentMeters < 5) continue;
+    const key = segmentKey(coords[i - 1], coords[i]);
+    segments.set(key, (segments.get(key) ?? 0) + segmentMeters);
   }
 
-  return "mixed";
+  return segments;
 }
 
-function getRouteHighlight(metrics: RankedRoute) {
-  if (metrics.pathRatio >= 0.35 || metrics.scenicRatio >= 0.22) {
-    return "More path-heavy and scenic than the typical option.";
-  }
+// Share of the shorter route's length that is also covered by the other route.
+function getRouteSimilarity(a: NormalizedRoute, b: NormalizedRoute) {
+  const aSegments = getRouteSegmentMeters(a);
+  const bSegments = getRouteSegmentMeters(b);
+  let aTotal = 0;
+  let bTotal = 0;
+  let sharedMeters = 0;
 
-  if (metrics.overlapPenaltyKm <= 0.18 && metrics.smoothnessPenaltyKm <= 0.6) {
-    return "Clean loop with low backtracking and smoother turns.";
+  for (const meters of bSegments.values()) {
+    bTotal += meters;
   }
 
-  if (metrics.distanceDiffKm <= 0.2) {
-    return "Very close to your requested distance.";
+  for (const [key, meters] of aSegments) {
+    aTotal += meters;
+    if (bSegments.has(key)) {
+      sharedMeters += Math.min(meters, bSegments.get(key) ?? 0);
+    }
   }
 
-  return "Balanced option with acceptable route shape.";
+  const shorterTotal = Math.min(aTotal, bTotal);
+  if (shorterTotal <= 0) return 0;
+  return sharedMeters / shorterTotal;
 }
 
-function getRouteWarnings(metrics: RankedRoute) {
-  const warnings: string[] = [];
-
-  if (metrics.overlapPenaltyKm >= 0.4) {
-    warnings.push("Includes some repeated segments.");
-  }
-
-  if (metrics.smoothnessPenaltyKm >= 1.1) {
-    warnings.push("Has more tight turns than ideal.");
-  }
-
-  if (metrics.arterialRatio >= 0.12) {
-    warnings.push("May spend more time on larger roads.");
-  }
+function pickDistinctRoutes(
+  rankedRoutes: RankedRoute[],
+  maxRoutes: number,
+  maxSimilarity = 0.7
+) {
+  const picked: RankedRoute[] = [];
 
-  if (metrics.distanceDiffKm >= 0.6) {
-    warnings.push("Distance drifts from the target more than usual.");
+  for (const candidate of rankedRoutes) {
+    if (picked.length >= maxRoutes) break;
+    // Near-duplicates of a better option don't give the runner a real choice.
+    const isNearDuplicate = picked.some(
+      (existing) => getRouteSimilarity(existing.route, candidate.route) >= maxSimilarity
+    );
+    if (isNearDuplicate) continue;
+    picked.push(candidate);
   }
 
-  return warnings;
+  return picked;
 }
 
-function toRouteVariant(id: string, rankedRoute: RankedRoute): RouteVariant {
+function toRouteVariant(
+  id: string,
+  rankedRoute: RankedRoute,
+  targetKm: number,
+  context: Omit<ScoringContext, "elevation" | "avoidZones" | "preferences">,
+  pins: RoutingWaypoint[],
+  paceSecondsPerKm: number,
+  activityProfile: ActivityProfile
+): RouteVariant {
   const feature: GeoJSON.Feature<GeoJSON.LineString> = {
     type: "Feature",
     properties: {},
     geometry: {
       type: "LineString",
-      coordinates: rankedRoute.route.geometry.coordinates,
+      coordinates: rankedRoute.route.coordinates,
     },
   };
 
-  const rawSteps: RouteStep[] =
-    rankedRoute.route.legs?.flatMap((leg) =>
-      (leg.steps || []).map((s) => ({
+  // Router durations assume its own walking speed, so steps are timed at the
+  // runner's pace instead, slowed on climbs when elevation is known.
+  const distance_m = rankedRoute.route.distance_m;
+  const durationBetween = createDurationModel(
+    distance_m,
+    paceSecondsPerKm,
+    rankedRoute.elevation?.profile ?? null,
+    activityProfile.paceModel
+  );
+  let stepStartMeters = 0;
+  const rawSteps: RouteStep[] = rankedRoute.route.legs.flatMap((leg) =>
+    leg.steps.map((s) => {
+      const fromMeters = stepStartMeters;
+      stepStartMeters += s.distance_m;
+      return {
         instruction: formatInstruction(s),
-        distance_m: s.distance ?? 0,
-        duration_s: s.duration ?? 0,
-        location: s.maneuver?.location ?? null,
-        type: s.maneuver?.type ?? null,
-        modifier: s.maneuver?.modifier ?? null,
-        name: s.name ?? null,
-      }))
-    ) ?? [];
-
-  const steps = simplifyRouteSteps(rawSteps);
-  const distance_m = rankedRoute.route.distance;
-  const distance_km = distance_m / 1000;
+        distance_m: s.distance_m,
+        duration_s: durationBetween(fromMeters, stepStartMeters),
+        location: s.maneuver.location,
+        type: s.maneuver.type,
+        modifier: s.maneuver.modifier,
+        name: s.name,
+        ...countTrafficControls(s),
+      };
+    })
+  );
+
+  const steps = simplifyRouteSteps(rawSteps, activityProfile.steps);
 
   return {
     id,
+    mode: context.mode,
+    pins: rankedRoute.waypoints.filter((waypoint) => pins.includes(waypoint)),
     geojson: feature,
     distance_m,
-    duration_s: distance_km * RUN_PACE_MIN_PER_KM * 60,
+    duration_s: durationBetween(0, distance_m),
     steps,
-    quality: {
-      score: Number(rankedRoute.score.toFixed(3)),
-      confidence: getConfidence(rankedRoute),
-      distance_diff_km: Number(rankedRoute.distanceDiffKm.toFixed(2)),
-      overlap_penalty_km: Number(rankedRoute.overlapPenaltyKm.toFixed(2)),
-      smoothness_penalty_km: Number(rankedRoute.smoothnessPenaltyKm.toFixed(2)),
-      path_ratio: Number(rankedRoute.pathRatio.toFixed(3)),
-      scenic_ratio: Number(rankedRoute.scenicRatio.toFixed(3)),
-      arterial_ratio: Number(rankedRoute.arterialRatio.toFixed(3)),
-      turn_count: rankedRoute.turnCount,
-      highlight: getRouteHighlight(rankedRoute),
-      warnings: getRouteWarnings(rankedRoute),
-    },
+    quality: toRouteQuality(rankedRoute, targetKm, context),
   };
 }
 
-// Rough conversion: 1 degree latitude ~ 111km, using spherical earth formula
-function destinationPoint(
-  lat: number,
-  lng: number,
-  bearingDeg: number,
-  distanceKm: number
-) {
-  const R = 6371; // km
-  const bearing = (bearingDeg * Math.PI) / 180;
-  const φ1 = (lat * Math.PI) / 180;
-  const λ1 = (lng * Math.PI) / 180;
+const ROUTE_MODES: RouteMode[] = ["loop", "out-and-back", "point-to-point"];
 
-  const δ = distanceKm / R;
+// Pinned waypoints use the OSRM convention: "lng,lat;lng,lat".
+function parsePinnedWaypoints(value: string | null): RoutingWaypoint[] | null {
+  if (!value) return [];
 
-  const φ2 = Math.asin(
-    Math.sin(φ1) * Math.cos(δ) +
-      Math.cos(φ1) * Math.sin(δ) * Math.cos(bearing)
-  );
-  const λ2 =
-    λ1 +
-    Math.atan2(
-      Math.sin(bearing) * Math.sin(δ) * Math.cos(φ1),
-      Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2)
-    );
+  const pins: RoutingWaypoint[] = [];
+  for (const pair of value.split(";")) {
+    const [lng, lat] = pair.split(",").map(Number);
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    pins.push({ lng, lat });
+  }
+  return pins;
+}
 
-  return {
-    lat: (φ2 * 180) / Math.PI,
-    lng: ((λ2 * 180) / Math.PI + 540) % 360 - 180, // normalize to [-180, 180]
-  };
+function parseAccessibleFlag(value: string | null): boolean | undefined {
+  if (value === null || value === "0" || value === "false") return false;
+  if (value === "1" || value === "true") return true;
+  return undefined;
+}
+
+// Avoid zones arrive as a JSON array of rings: [[[lng, lat], ...], ...].
+function parseAvoidZones(value: string | null): AvoidZone[] | null {
+  if (!value) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed) || parsed.length > MAX_AVOID_ZONES) return null;
+  if (
+    !parsed.every(
+      (zone) => isValidAvoidZone(zone) && zone.length <= MAX_AVOID_ZONE_VERTICES
+    )
+  ) {
+    return null;
+  }
+  return parsed as AvoidZone[];
 }
 
-async function fetchDirections(
-  coords: Array<{ lng: number; lat: number }>,
-  token: string
-): Promise<DirectionsResponse> {
-  const coordStr = coords.map((c) => `${c.lng},${c.lat}`).join(";");
-  const url =
-    `https://api.mapbox.com/directions/v5/mapbox/walking/${coordStr}` +
-    `?geometries=geojson&overview=full&steps=true&access_token=${token}`;
-
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Directions API error: ${res.status}`);
-  return res.json();
+function parseRouteMode(value: string | null): RouteMode | undefined {
+  if (!value) return "loop";
+  return ROUTE_MODES.find((mode) => mode === value);
 }
 
 export async function GET(req: Request) {
@@ -729,68 +438,248 @@ export async function GET(req: Request) {
 
   const lat = Number(searchParams.get("lat"));
   const lng = Number(searchParams.get("lng"));
-  const km = Number(searchParams.get("km"));
+  const activity = parseActivity(searchParams.get("activity"));
+  const paceParam = searchParams.get("pace")?.trim();
+  // Without a pace, each activity has its own typical one.
+  const pace = paceParam ? Number(paceParam) : ACTIVITY_PROFILES[activity ?? "run"].paceSPerKm;
+  // A target time is turned into a distance at the runner's flat pace; a
+  // distance can be given in either km or mi.
+  const minutesParam = searchParams.get("minutes")?.trim();
+  const miParam = searchParams.get("mi")?.trim();
+  const km = minutesParam
+    ? (Number(minutesParam) * 60) / pace
+    : miParam
+      ? (Number(miParam) * METERS_PER_MILE) / 1000
+      : Number(searchParams.get("km"));
+  const hills = parseHillPreference(searchParams.get("hills"));
+  const surface = parseSurfacePreference(searchParams.get("surface"));
+  const accessible = parseAccessibleFlag(searchParams.get("accessible"));
+  const mode = parseRouteMode(searchParams.get("mode"));
+  const pins = parsePinnedWaypoints(searchParams.get("via"));
+  const avoidZones = parseAvoidZones(searchParams.get("avoid"));
+  const preferences = parseScoringPreferences(
+    searchParams.get("preset"),
+    searchParams.get("prefs")
+  );
+  const seedParam = searchParams.get("seed")?.trim();
+  const seed = seedParam ? Number(seedParam) : createSeed();
 
-  if (!Number.isFinite(lat) || !Number.isFinite(lng) || !Number.isFinite(km)) {
+  if (activity === undefined) {
+    return NextResponse.json(
+      { error: `activity must be one of ${ACTIVITIES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const activityProfile = ACTIVITY_PROFILES[activity];
+
+  if (!isValidPace(pace, activityProfile.paceModel)) {
+    return NextResponse.json(
+      { error: paceRangeError(activityProfile.paceModel) },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || !Number.isFinite(km) || km <= 0) {
     return NextResponse.json({ error: "Invalid params" }, { status: 400 });
   }
 
-  const token = process.env.MAPBOX_SECRET_TOKEN;
-  if (!token) {
+  if (hills === undefined) {
     return NextResponse.json(
-      { error: "Missing MAPBOX_SECRET_TOKEN" },
-      { status: 500 }
+      { error: "hills must be one of flat, rolling or hilly" },
+      { status: 400 }
     );
   }
 
+  if (surface === undefined) {
+    return NextResponse.json(
+      { error: "surface must be one of paved, trail or any" },
+      { status: 400 }
+    );
+  }
+
+  if (accessible === undefined) {
+    return NextResponse.json({ error: "accessible must be 1 or 0" }, { status: 400 });
+  }
+
+  if (mode === undefined) {
+    return NextResponse.json(
+      { error: "mode must be one of loop, out-and-back or point-to-point" },
+      { status: 400 }
+    );
+  }
+
+  if (!pins || pins.length > MAX_PINNED_WAYPOINTS) {
+    return NextResponse.json(
+      { error: `via must be up to ${MAX_PINNED_WAYPOINTS} "lng,lat" pairs separated by ";"` },
+      { status: 400 }
+    );
+  }
+
+  if (!avoidZones) {
+    return NextResponse.json(
+      {
+        error: `avoid must be a JSON list of up to ${MAX_AVOID_ZONES} polygons with 3-${MAX_AVOID_ZONE_VERTICES} [lng, lat] vertices`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!preferences) {
+    return NextResponse.json(
+      {
+        error: `preset must be one of ${Object.keys(PREFERENCE_PRESETS).join(", ")}, and prefs a list of key:weight pairs (${PREFERENCE_KEYS.join(", ")}) with weights from ${MIN_PREFERENCE_WEIGHT} to ${MAX_PREFERENCE_WEIGHT}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!isValidSeed(seed)) {
+    return NextResponse.json(
+      { error: `seed must be a whole number from 0 to ${MAX_SEED}` },
+      { status: 400 }
+    );
+  }
+
+  const endLat = Number(searchParams.get("end_lat"));
+  const endLng = Number(searchParams.get("end_lng"));
+  const hasFinish =
+    searchParams.has("end_lat") &&
+    searchParams.has("end_lng") &&
+    Number.isFinite(endLat) &&
+    Number.isFinite(endLng);
+  if (mode === "point-to-point" && !hasFinish) {
+    return NextResponse.json(
+      { error: "point-to-point routes need end_lat and end_lng" },
+      { status: 400 }
+    );
+  }
+
+  const providerConfig = getRoutingProvider();
+  if (!providerConfig.ok) {
+    return NextResponse.json({ error: providerConfig.reason }, { status: 500 });
+  }
+  const { provider, cache } = providerConfig;
+
+  const elevationConfig = getElevationSource();
+  if (!elevationConfig.ok) {
+    return NextResponse.json({ error: elevationConfig.reason }, { status: 500 });
+  }
+  const elevationSource = elevationConfig.source;
+
+  const searchConfig = getSearchOptions();
+  if (!searchConfig.ok) {
+    return NextResponse.json({ error: searchConfig.reason }, { status: 500 });
+  }
+  const { concurrency, budgetMs } = searchConfig.options;
+
   const start = { lat, lng };
+  const finish = { lat: endLat, lng: endLng };
   const targetKm = km;
 
+  const createPlan = (random: RandomFn): WaypointPlan => {
+    if (mode === "out-and-back") {
+      return planOutAndBack(start, targetKm, pins, random, activityProfile.plan);
+    }
+    if (mode === "point-to-point") {
+      return planPointToPoint(start, finish, targetKm, pins, random, activityProfile.plan);
+    }
+    return planLoop(start, targetKm, pins, random, activityProfile.plan);
+  };
+
   // Try a few bearings, and for each one, tune the waypoint radius to match targetKm.
   // The winner balances distance accuracy and smoother, less turn-dense paths.
+  // Bearings run concurrently; the search stops at the time budget or once
+  // there are enough distinct strong options to show.
   const bearingTries = 22;
   const tuneSteps = 7;
-  const toleranceKm = Math.min(1.2, Math.max(0.6, targetKm * 0.15));
-
-  const candidateRoutes = new Map<string, RankedRoute>();
-
-  for (let t = 0; t < bearingTries; t++) {
-    const b1 = Math.random() * 360;
-    const b2 = (b1 + 95 + Math.random() * 90) % 360;
-    const useThreeWaypoints =
-      targetKm >= 8 ? Math.random() < 0.55 : Math.random() < 0.3;
-    const b3 = (b2 + 80 + Math.random() * 80) % 360;
-    const leg2Scale = 0.8 + Math.random() * 0.35;
-    const leg3Scale = 0.65 + Math.random() * 0.35;
-
-    // Start with a smaller guess than before (roads add distance)
-    // These bounds keep it stable for short/long runs.
-    let low = targetKm * 0.12;
-    let high = targetKm * 0.45;
-    let leg = targetKm * 0.22;
-
-    for (let s = 0; s < tuneSteps; s++) {
-      const wp1 = destinationPoint(start.lat, start.lng, b1, leg);
-      const wp2 = destinationPoint(start.lat, start.lng, b2, leg * leg2Scale);
-      const coords = useThreeWaypoints
-        ? [
-            start,
-            wp1,
-            wp2,
-            destinationPoint(start.lat, start.lng, b3, leg * leg3Scale),
-            start,
-          ]
-        : [start, wp1, wp2, start];
+  const toleranceKm = getToleranceKm(activityProfile, targetKm);
+  const weights = applyActivityWeights(preferences, activityProfile);
+
+  // Each try draws from its own stream of the seed, and a try's candidates
+  // only count once every earlier try has finished. That way a seed picks the
+  // same routes however the concurrent requests interleave, unless the time
+  // budget cuts the search short.
+  const tryCandidates: Array<Array<{ signature: string; candidate: RankedRoute }>> = [];
+  const finishedTries: boolean[] = [];
+  let settledTries = 0;
+  let usableTries: number | null = null;
+
+  const startedAt = Date.now();
+  const budget = new AbortController();
+  const budgetTimer = setTimeout(() => budget.abort(), budgetMs);
+  let directionsCalls = 0;
+
+  const shouldStop = () => budget.signal.aborted || usableTries !== null;
+
+  const collectCandidates = (tryLimit: number) => {
+    const candidateRoutes = new Map<string, RankedRoute>();
+    for (let t = 0; t < tryLimit; t++) {
+      for (const { signature, candidate } of tryCandidates[t] ?? []) {
+        const existing = candidateRoutes.get(signature);
+        if (!existing || candidate.score < existing.score) {
+          candidateRoutes.set(signature, candidate);
+        }
+      }
+    }
+    return [...candidateRoutes.values()];
+  };
+
+  const hasEnoughStrong = (candidates: RankedRoute[]) => {
+    const strongRoutes = candidates
+      .filter((candidate) => !candidate.hasMicroSpur && getConfidence(candidate) === "strong")
+      .sort((a, b) => a.score - b.score);
+    return (
+      pickDistinctRoutes(strongRoutes, MAX_ROUTE_ALTERNATIVES).length >=
+      MAX_ROUTE_ALTERNATIVES
+    );
+  };
+
+  const markTryFinished = (t: number) => {
+    finishedTries[t] = true;
+    if (usableTries !== null || !finishedTries[settledTries]) return;
+
+    while (finishedTries[settledTries]) settledTries++;
+    if (hasEnoughStrong(collectCandidates(settledTries))) {
+      usableTries = settledTries;
+    }
+  };
+
+  // Every try of a fixed plan asks for the same route, so one is enough.
+  const createTryPlan = (t: number) => createPlan(createRandom(deriveSeed(seed, t)));
+  const firstPlan = createTryPlan(0);
+  const tryCount = firstPlan.fixed ? 1 : bearingTries;
+
+  const runBearingTry = async (t: number) => {
+    const plan = t === 0 ? firstPlan : createTryPlan(t);
+    const candidates: Array<{ signature: string; candidate: RankedRoute }> = [];
+    tryCandidates[t] = candidates;
+    let { low, high } = plan;
+    let scale = plan.initial;
+
+    for (let s = 0; s < tuneSteps && !shouldStop(); s++) {
+      const coords = plan.buildWaypoints(scale);
 
       try {
-        const data = await fetchDirections(coords, token);
+        directionsCalls++;
+        const data = await provider.getDirections(coords, {
+          profile: activityProfile.routing,
+          avoidZones,
+          accessible,
+          signal: budget.signal,
+        });
         const route = data?.routes?.[0];
         if (!route) continue;
 
-        const metrics = scoreRoute(
-          route,
-          targetKm
-        );
+        const elevation = await getElevationForRoute(route, elevationSource);
+        const metrics = scoreRoute(route, targetKm, {
+          elevation,
+          hills,
+          surface,
+          accessible,
+          mode,
+          avoidZones,
+          preferences: weights,
+        });
         const { routeKm, score, hasMicroSpur } = metrics;
 
         const isTooShort = routeKm < targetKm - toleranceKm;
@@ -799,45 +688,91 @@ export async function GET(req: Request) {
           (hasMicroSpur ? 2.25 : 0) +
           (isTooShort ? 1.5 : 0) +
           (routeKm > targetKm + toleranceKm * 1.6 ? 0.45 : 0);
-        const signature = buildRouteSignature(route);
-        const existing = candidateRoutes.get(signature);
-
-        if (!existing || selectionScore < existing.score) {
-          candidateRoutes.set(signature, {
+        candidates.push({
+          signature: buildRouteSignature(route),
+          candidate: {
             ...metrics,
             route,
+            waypoints: coords,
             score: selectionScore,
-          });
-        }
+          },
+        });
 
+        if (plan.fixed) break;
         if (!hasMicroSpur && routeKm >= targetKm && metrics.distanceDiffKm <= toleranceKm) break;
 
-        // If route too long, shrink leg; if too short, expand leg
+        // If route too long, shrink the shape; if too short, expand it
         if (routeKm > targetKm) {
-          high = leg;
+          high = scale;
         } else {
-          low = leg;
+          low = scale;
         }
-        leg = (low + high) / 2;
+        scale = (low + high) / 2;
       } catch (err) {
-        console.error("Directions error", err);
+        // Requests cut off by the time budget aren't worth logging.
+        if (!budget.signal.aborted) console.error("Directions error", err);
         break;
       }
     }
+
+    markTryFinished(t);
+  };
+
+  try {
+    await runWithConcurrency(tryCount, concurrency, runBearingTry, shouldStop);
+  } finally {
+    clearTimeout(budgetTimer);
   }
 
-  const rankedRoutes = [...candidateRoutes.values()]
-    .sort((a, b) => a.score - b.score)
-    .slice(0, 3);
+  const allCandidates = collectCandidates(usableTries ?? tryCount);
+  const metrics = {
+    directions_calls: directionsCalls,
+    elapsed_ms: Date.now() - startedAt,
+    candidates: allCandidates.length,
+    budget_exhausted: budget.signal.aborted,
+    stopped_early: usableTries !== null,
+    cache_hits: cache?.hits ?? null,
+    cache_misses: cache?.misses ?? null,
+  };
+
+  // Reject candidates that enter an avoid zone unless every one of them does,
+  // then, in accessible mode, ones with stairs, rough surfaces or steep
+  // grades the same way.
+  const zoneFreeCandidates = preferPassing(
+    allCandidates,
+    (candidate) => candidate.avoidZonesEntered === 0
+  );
+  const eligibleCandidates = accessible
+    ? preferPassing(zoneFreeCandidates, (candidate) => candidate.meetsAccessibility)
+    : zoneFreeCandidates;
+  const rankedRoutes = pickDistinctRoutes(
+    eligibleCandidates.sort((a, b) => a.score - b.score),
+    MAX_ROUTE_ALTERNATIVES
+  );
 
   if (rankedRoutes.length === 0) {
     return NextResponse.json(
-      { error: "Could not generate a route" },
+      { error: "Could not generate a route", seed, metrics },
       { status: 500 }
     );
   }
 
   return NextResponse.json({
-    route: toRouteVariant("route-1", rankedRoutes[0]),
+    routes: rankedRoutes.map((rankedRoute, idx) =>
+      toRouteVariant(
+        `route-${idx + 1}`,
+        rankedRoute,
+        targetKm,
+        { hills, surface, accessible, mode },
+        pins,
+        pace,
+        activityProfile
+      )
+    ),
+    seed,
+    activity,
+    target_km: Number(targetKm.toFixed(2)),
+    preferences,
+    metrics,
   });
 }
@@ -0,0 +1,243 @@
+import { NextResponse } from "next/server";
+import { getElevationSource } from "@/lib/elevation/sources";
+import { MAX_IMPORT_POINTS } from "@/lib/import/route-file";
+import {
+  ACTIVITIES,
+  ACTIVITY_PROFILES,
+  applyActivityWeights,
+  parseActivity,
+} from "@/lib/routing/activity";
+import { distanceMeters } from "@/lib/routing/geo";
+import { createDurationModel, isValidPace, paceRangeError } from "@/lib/routing/pace";
+import {
+  MAX_PREFERENCE_WEIGHT,
+  MIN_PREFERENCE_WEIGHT,
+  parseScoringPreferences,
+  PREFERENCE_KEYS,
+  PREFERENCE_PRESETS,
+} from "@/lib/routing/preferences";
+import { getRoutingProvider } from "@/lib/routing/providers";
+import {
+  getElevationForRoute,
+  parseHillPreference,
+  parseSurfacePreference,
+  scoreRoute,
+  toRouteQuality,
+} from "@/lib/routing/scoring";
+import type {
+  LngLatTuple,
+  NormalizedLeg,
+  RoutingProfile,
+  RoutingProvider,
+  RoutingWaypoint,
+} from "@/lib/routing/types";
+import type { RouteMode } from "@/lib/routing/waypoints";
+import { METERS_PER_MILE } from "@/lib/units/format";
+
+// Most routers cap a request at 25 waypoints.
+const MAX_MATCH_WAYPOINTS = 25;
+const MATCH_TIMEOUT_MS = 8000;
+// A start and finish this close together make the route a loop.
+const LOOP_CLOSE_METERS = 150;
+
+type ScoreRequest = {
+  coordinates?: unknown;
+  km?: unknown;
+  mi?: unknown;
+  hills?: unknown;
+  surface?: unknown;
+  accessible?: unknown;
+  activity?: unknown;
+  pace?: unknown;
+  preset?: unknown;
+  prefs?: unknown;
+};
+
+function parseCoordinates(value: unknown): LngLatTuple[] | null {
+  if (!Array.isArray(value) || value.length < 2 || value.length > MAX_IMPORT_POINTS) {
+    return null;
+  }
+
+  const coordinates: LngLatTuple[] = [];
+  for (const point of value) {
+    if (!Array.isArray(point)) return null;
+    const [lng, lat] = point;
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    coordinates.push([lng, lat]);
+  }
+  return coordinates;
+}
+
+function lineMeters(coordinates: LngLatTuple[]) {
+  let meters = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    meters += distanceMeters(coordinates[i - 1], coordinates[i]);
+  }
+  return meters;
+}
+
+// Imported files only have a line, so the street names and turns that road
+// feel and smoothness need come from routing through points along it. The
+// match is only trusted when the routed distance agrees with the line.
+async function matchToStreets(
+  provider: RoutingProvider,
+  coordinates: LngLatTuple[],
+  totalMeters: number,
+  profile: RoutingProfile
+): Promise<NormalizedLeg[] | null> {
+  const spacing = totalMeters / (MAX_MATCH_WAYPOINTS - 1);
+  const waypoints: RoutingWaypoint[] = [{ lng: coordinates[0][0], lat: coordinates[0][1] }];
+  let travelled = 0;
+  let nextMark = spacing;
+  for (let i = 1; i < coordinates.length - 1; i++) {
+    travelled += distanceMeters(coordinates[i - 1], coordinates[i]);
+    if (travelled >= nextMark && waypoints.length < MAX_MATCH_WAYPOINTS - 1) {
+      waypoints.push({ lng: coordinates[i][0], lat: coordinates[i][1] });
+      nextMark += spacing;
+    }
+  }
+  const last = coordinates[coordinates.length - 1];
+  waypoints.push({ lng: last[0], lat: last[1] });
+
+  try {
+    const data = await provider.getDirections(waypoints, {
+      profile,
+      signal: AbortSignal.timeout(MATCH_TIMEOUT_MS),
+    });
+    const matched = data.routes[0];
+    if (!matched || Math.abs(matched.distance_m - totalMeters) > totalMeters * 0.15) {
+      return null;
+    }
+    return matched.legs;
+  } catch (err) {
+    console.error("Street matching error", err);
+    return null;
+  }
+}
+
+// Scores a route drawn elsewhere (an imported GPX, TCX or GeoJSON file) with
+// the same metrics the generator ranks its own candidates by.
+export async function POST(req: Request) {
+  let body: ScoreRequest;
+  try {
+    body = (await req.json()) as ScoreRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const coordinates = parseCoordinates(body?.coordinates);
+  if (!coordinates) {
+    return NextResponse.json(
+      { error: `coordinates must be 2-${MAX_IMPORT_POINTS} [lng, lat] pairs` },
+      { status: 400 }
+    );
+  }
+
+  const targetKm =
+    body.mi !== undefined ? (Number(body.mi) * METERS_PER_MILE) / 1000 : Number(body.km);
+  if (!Number.isFinite(targetKm) || targetKm <= 0) {
+    return NextResponse.json({ error: "km or mi must be a positive number" }, { status: 400 });
+  }
+
+  const hills = parseHillPreference(typeof body.hills === "string" ? body.hills : null);
+  if (hills === undefined) {
+    return NextResponse.json(
+      { error: "hills must be one of flat, rolling or hilly" },
+      { status: 400 }
+    );
+  }
+
+  const surface = parseSurfacePreference(typeof body.surface === "string" ? body.surface : null);
+  if (surface === undefined) {
+    return NextResponse.json(
+      { error: "surface must be one of paved, trail or any" },
+      { status: 400 }
+    );
+  }
+
+  if (body.accessible !== undefined && typeof body.accessible !== "boolean") {
+    return NextResponse.json({ error: "accessible must be true or false" }, { status: 400 });
+  }
+  const accessible = body.accessible === true;
+
+  const activity = parseActivity(typeof body.activity === "string" ? body.activity : null);
+  if (activity === undefined) {
+    return NextResponse.json(
+      { error: `activity must be one of ${ACTIVITIES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const activityProfile = ACTIVITY_PROFILES[activity];
+
+  const pace = body.pace === undefined ? activityProfile.paceSPerKm : Number(body.pace);
+  if (!isValidPace(pace, activityProfile.paceModel)) {
+    return NextResponse.json(
+      { error: paceRangeError(activityProfile.paceModel) },
+      { status: 400 }
+    );
+  }
+
+  // Same preferences as the generated options, so the scores compare.
+  const preferences = parseScoringPreferences(
+    typeof body.preset === "string" ? body.preset : null,
+    typeof body.prefs === "string" ? body.prefs : null
+  );
+  if (!preferences) {
+    return NextResponse.json(
+      {
+        error: `preset must be one of ${Object.keys(PREFERENCE_PRESETS).join(", ")}, and prefs a list of key:weight pairs (${PREFERENCE_KEYS.join(", ")}) with weights from ${MIN_PREFERENCE_WEIGHT} to ${MAX_PREFERENCE_WEIGHT}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const providerConfig = getRoutingProvider();
+  if (!providerConfig.ok) {
+    return NextResponse.json({ error: providerConfig.reason }, { status: 500 });
+  }
+
+  const elevationConfig = getElevationSource();
+  if (!elevationConfig.ok) {
+    return NextResponse.json({ error: elevationConfig.reason }, { status: 500 });
+  }
+
+  const distance_m = lineMeters(coordinates);
+  const mode: RouteMode =
+    distanceMeters(coordinates[0], coordinates[coordinates.length - 1]) <= LOOP_CLOSE_METERS
+      ? "loop"
+      : "point-to-point";
+
+  const legs = await matchToStreets(
+    providerConfig.provider,
+    coordinates,
+    distance_m,
+    activityProfile.routing
+  );
+  const route = { distance_m, duration_s: 0, coordinates, legs: legs ?? [] };
+  const elevation = await getElevationForRoute(route, elevationConfig.source);
+  const durationBetween = createDurationModel(
+    distance_m,
+    pace,
+    elevation?.profile ?? null,
+    activityProfile.paceModel
+  );
+  const duration_s = durationBetween(0, distance_m);
+  const metrics = scoreRoute(route, targetKm, {
+    elevation,
+    hills,
+    surface,
+    accessible,
+    mode,
+    avoidZones: [],
+    preferences: applyActivityWeights(preferences, activityProfile),
+  });
+  const quality = toRouteQuality(metrics, targetKm, { hills, surface, accessible, mode });
+  if (!legs) {
+    quality.warnings.push(
+      "Could not match this route to streets, so turns and road feel aren't scored."
+    );
+  }
+
+  return NextResponse.json({ mode, distance_m, duration_s, quality, matched: legs !== null });
+}
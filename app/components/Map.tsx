@@ -2,8 +2,80 @@
 
 import mapboxgl from "mapbox-gl";
 import posthog from "posthog-js";
-import { useEffect, useRef, useState, useMemo } from "react";
-import { routeToGpx, validateGpxTrackMatchesRoute } from "@/lib/export/gpx";
+import {
+  useEffect,
+  useRef,
+  useState,
+  useMemo,
+  type DragEvent,
+  type FormEvent,
+} from "react";
+import NavigationPanel from "./NavigationPanel";
+import RouteLibrary from "./RouteLibrary";
+import { routesToGpx, routeToGpx, validateGpxTrackMatchesRoute } from "@/lib/export/gpx";
+import { routeToFit, validateFitCourseMatchesRoute } from "@/lib/export/fit";
+import { routeToTcx, validateTcxCourseMatchesRoute } from "@/lib/export/tcx";
+import { parseRouteFile } from "@/lib/import/route-file";
+import {
+  createAudioCueState,
+  scheduleAudioCues,
+  TURN_LEAD_PRESETS,
+  type AudioCueState,
+  type TurnLeadPreset,
+} from "@/lib/navigation/audio-cues";
+import { createSimulatedFixes } from "@/lib/navigation/simulate";
+import {
+  completedLine,
+  createNavigationState,
+  prepareNavigationRoute,
+  rejoinPoint,
+  updateNavigation,
+  type NavigationFix,
+  type NavigationRoute,
+  type NavigationState,
+} from "@/lib/navigation/tracker";
+import { ACTIVITY_PROFILES, type Activity } from "@/lib/routing/activity";
+import { isValidPace, type PaceModel } from "@/lib/routing/pace";
+import {
+  DEFAULT_PREFERENCES,
+  formatScoringPreferences,
+  isValidPreferenceWeight,
+  MAX_PREFERENCE_WEIGHT,
+  MIN_PREFERENCE_WEIGHT,
+  PREFERENCE_KEYS,
+  PREFERENCE_PRESETS,
+  type PreferenceKey,
+  type PreferencePreset,
+  type ScoringPreferences,
+} from "@/lib/routing/preferences";
+import {
+  detectUnitSystem,
+  distanceUnit,
+  formatClock,
+  formatDistance,
+  formatElevation,
+  formatPace,
+  formatStepDistance,
+  fromDistanceUnits,
+  fromPaceUnits,
+  isUnitSystem,
+  toDistanceUnits,
+  toPaceUnits,
+  type UnitSystem,
+} from "@/lib/units/format";
+import {
+  createLibraryEntryId,
+  deleteLibraryEntries,
+  listLibraryEntries,
+  pruneLibraryHistory,
+  putLibraryEntries,
+  type LibraryEntry,
+} from "@/lib/library/store";
+import {
+  decodeRouteLink,
+  encodeRouteLink,
+  ROUTE_LINK_HASH_KEY,
+} from "@/lib/share/route-link";
 
 mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || "";
 
@@ -21,6 +93,9 @@ type RouteStep = {
   location: [number, number] | null; // [lng, lat]
   type: string | null;
   modifier: string | null;
+  // Missing on routes saved before crossings were counted.
+  traffic_signals?: number;
+  stop_signs?: number;
 };
 
 type RouteQuality = {
@@ -33,37 +108,475 @@ type RouteQuality = {
   scenic_ratio: number;
   arterial_ratio: number;
   turn_count: number;
+  ascent_m: number | null;
+  descent_m: number | null;
+  max_grade_pct: number | null;
+  hill_penalty_km: number;
+  // Missing on routes saved before surfaces were scored.
+  surface_breakdown?: { paved: number; gravel: number; unpaved: number; unknown: number };
+  // Null when the router doesn't report lights and signs.
+  traffic_signals?: number | null;
+  stop_signs?: number | null;
+  major_crossings?: number | null;
+  stop_time_s?: number | null;
+  stairs?: number;
+  accessible?: boolean;
+  // Set when accessible mode had to settle for a route with these.
+  accessibility_issues?: { stairs: number; rough_m: number; max_grade_pct: number | null } | null;
   highlight: string;
   warnings: string[];
 };
 
+type RouteMode = "loop" | "out-and-back" | "point-to-point";
+
 type RouteVariant = {
   id: string;
+  mode: RouteMode;
+  pins: LngLat[];
   geojson: GeoJSON.Feature<GeoJSON.LineString>;
   distance_m: number;
   duration_s: number;
   steps: RouteStep[];
   quality: RouteQuality;
+  imported_name?: string; // set on routes loaded from a file
+};
+
+type GeocodeResult = {
+  id: string;
+  name: string;
+  place_name: string;
+  lat: number;
+  lng: number;
+};
+
+type GeocodeApiResponse = {
+  results: GeocodeResult[];
 };
 
 type RouteApiResponse = {
-  route: RouteVariant;
+  routes: RouteVariant[];
+  seed: number;
+  target_km: number;
+};
+
+type ScoreApiResponse = Pick<RouteVariant, "mode" | "distance_m" | "duration_s" | "quality"> & {
+  matched: boolean;
+};
+
+type HillPreference = "any" | "flat" | "rolling" | "hilly";
+
+const HILL_OPTIONS: Array<{ value: HillPreference; label: string }> = [
+  { value: "any", label: "Any" },
+  { value: "flat", label: "Flat" },
+  { value: "rolling", label: "Rolling" },
+  { value: "hilly", label: "Hilly" },
+];
+
+type SurfacePreference = "any" | "paved" | "trail";
+
+const SURFACE_OPTIONS: Array<{ value: SurfacePreference; label: string }> = [
+  { value: "any", label: "Any" },
+  { value: "paved", label: "Paved" },
+  { value: "trail", label: "Trail" },
+];
+
+const MAX_PINS = 8;
+const MAX_AVOID_ZONES = 10;
+const AVOID_ZONES_STORAGE_KEY = "runroutr:avoid-zones";
+
+type AvoidZone = [number, number][]; // ring of [lng, lat]
+
+// What a plain click on the map does
+type MapClickMode = "start" | "pin" | "avoid";
+
+function loadSavedAvoidZones(): AvoidZone[] {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(AVOID_ZONES_STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? (saved as AvoidZone[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function buildAvoidZonesData(zones: AvoidZone[], draft: AvoidZone) {
+  const features: GeoJSON.Feature[] = zones.map((ring) => ({
+    type: "Feature",
+    properties: { kind: "zone" },
+    geometry: { type: "Polygon", coordinates: [[...ring, ring[0]]] },
+  }));
+
+  if (draft.length > 0) {
+    features.push({
+      type: "Feature",
+      properties: { kind: "draft" },
+      geometry: {
+        type: "LineString",
+        coordinates: draft.length > 2 ? [...draft, draft[0]] : draft,
+      },
+    });
+    features.push(
+      ...draft.map(
+        (point): GeoJSON.Feature => ({
+          type: "Feature",
+          properties: { kind: "draft-vertex" },
+          geometry: { type: "Point", coordinates: point },
+        })
+      )
+    );
+  }
+
+  return { type: "FeatureCollection", features } as GeoJSON.FeatureCollection;
+}
+
+const MODE_OPTIONS: Array<{ value: RouteMode; label: string }> = [
+  { value: "loop", label: "Loop" },
+  { value: "out-and-back", label: "Out & back" },
+  { value: "point-to-point", label: "One way" },
+];
+
+type ExportFormat = "gpx" | "tcx" | "fit";
+
+const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: "gpx", label: "GPX" },
+  { value: "tcx", label: "TCX" },
+  { value: "fit", label: "FIT" },
+];
+
+type PaceProfile = "easy" | "tempo" | "long" | "walk" | "ride";
+
+const PACE_PROFILES: Array<{
+  value: PaceProfile;
+  label: string;
+  pace: number;
+  model: PaceModel;
+}> = [
+  { value: "easy", label: "Easy", pace: ACTIVITY_PROFILES.run.paceSPerKm, model: "foot" },
+  { value: "tempo", label: "Tempo", pace: 285, model: "foot" },
+  { value: "long", label: "Long run", pace: 390, model: "foot" },
+  // Walks and rides start from the same pace the server assumes for them.
+  {
+    value: "walk",
+    label: "Walk",
+    pace: ACTIVITY_PROFILES.walk.paceSPerKm,
+    model: ACTIVITY_PROFILES.walk.paceModel,
+  },
+  {
+    value: "ride",
+    label: "Ride",
+    pace: ACTIVITY_PROFILES.cycle.paceSPerKm,
+    model: ACTIVITY_PROFILES.cycle.paceModel,
+  },
+];
+const PACE_PROFILES_STORAGE_KEY = "runroutr:pace-profiles";
+
+type SavedPaceProfiles = { selected: PaceProfile; paces: Record<PaceProfile, number> };
+
+const DEFAULT_PACE_PROFILES: SavedPaceProfiles = {
+  selected: "easy",
+  paces: Object.fromEntries(
+    PACE_PROFILES.map((profile) => [profile.value, profile.pace])
+  ) as Record<PaceProfile, number>,
+};
+
+function loadSavedPaceProfiles(): SavedPaceProfiles {
+  try {
+    const saved = JSON.parse(
+      window.localStorage.getItem(PACE_PROFILES_STORAGE_KEY) || "null"
+    ) as Partial<SavedPaceProfiles> | null;
+    const paces = { ...DEFAULT_PACE_PROFILES.paces };
+    for (const profile of PACE_PROFILES) {
+      const pace = saved?.paces?.[profile.value];
+      if (typeof pace === "number" && isValidPace(pace, profile.model)) {
+        paces[profile.value] = pace;
+      }
+    }
+    const selected = PACE_PROFILES.find((profile) => profile.value === saved?.selected);
+    return { selected: selected?.value ?? DEFAULT_PACE_PROFILES.selected, paces };
+  } catch {
+    return DEFAULT_PACE_PROFILES;
+  }
+}
+
+// "m:ss" per km or mile, the way runners write pace. Returns seconds per km.
+function parsePace(value: string, units: UnitSystem, model: PaceModel): number | null {
+  const match = /^(\d{1,2}):([0-5]\d)$/.exec(value.trim());
+  if (!match) return null;
+  const seconds = fromPaceUnits(Number(match[1]) * 60 + Number(match[2]), units);
+  return isValidPace(seconds, model) ? seconds : null;
+}
+
+function formatPaceInput(secondsPerKm: number, units: UnitSystem) {
+  return formatClock(toPaceUnits(secondsPerKm, units));
+}
+
+const UNITS_STORAGE_KEY = "runroutr:units";
+
+// Until the runner picks one, units follow the browser's locale.
+function loadSavedUnits(): UnitSystem {
+  try {
+    const saved = window.localStorage.getItem(UNITS_STORAGE_KEY);
+    if (isUnitSystem(saved)) return saved;
+  } catch {
+    // Fall through to the locale.
+  }
+  return detectUnitSystem(window.navigator.language);
+}
+
+const ACTIVITY_OPTIONS: Array<{ value: Activity; label: string }> = [
+  { value: "run", label: "Run" },
+  { value: "trail-run", label: "Trail run" },
+  { value: "walk", label: "Walk" },
+  { value: "cycle", label: "Ride" },
+];
+
+// Pace profile to switch to with each activity; runs keep the runner's pick.
+const ACTIVITY_PACE_PROFILES: Record<Activity, PaceProfile | null> = {
+  run: null,
+  "trail-run": null,
+  walk: "walk",
+  cycle: "ride",
+};
+
+const ACTIVITY_STORAGE_KEY = "runroutr:activity";
+
+function loadSavedActivity(): Activity {
+  try {
+    const saved = window.localStorage.getItem(ACTIVITY_STORAGE_KEY);
+    return ACTIVITY_OPTIONS.find((option) => option.value === saved)?.value ?? "run";
+  } catch {
+    return "run";
+  }
+}
+
+// A typical target in the runner's units: round numbers like 3 mi rather
+// than 3.11, and rides far longer than runs.
+function defaultTargetDistance(activity: Activity, units: UnitSystem) {
+  if (activity === "cycle") return units === "imperial" ? 25 : 40;
+  return units === "imperial" ? 3 : 5;
+}
+
+const ACCESSIBLE_STORAGE_KEY = "runroutr:accessible";
+
+function loadSavedAccessible() {
+  try {
+    return window.localStorage.getItem(ACCESSIBLE_STORAGE_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+// A target in km shown as a tidy number in the chosen unit.
+function formatDistanceInput(km: number, units: UnitSystem) {
+  return String(Number(toDistanceUnits(km * 1000, units).toFixed(2)));
+}
+
+type TargetType = "distance" | "duration";
+
+const PRESET_OPTIONS: Array<{ value: PreferencePreset; label: string }> = [
+  { value: "balanced", label: "Balanced" },
+  { value: "trail-lover", label: "Trail lover" },
+  { value: "city-explorer", label: "City explorer" },
+  { value: "race-pace-precise", label: "Race-pace precise" },
+];
+
+const PREFERENCE_LABELS: Record<PreferenceKey, string> = {
+  paths: "Paths & trails",
+  scenery: "Scenery",
+  fewer_turns: "Fewer turns",
+  avoid_big_roads: "Avoid big roads",
+  distance_strictness: "Distance strictness",
+  uninterrupted: "Fewer lights & stops",
+};
+
+// "custom" once any slider is moved away from the chosen preset.
+type SavedPreferences = { preset: PreferencePreset | "custom"; weights: ScoringPreferences };
+
+const PREFERENCES_STORAGE_KEY = "runroutr:preferences";
+const DEFAULT_SAVED_PREFERENCES: SavedPreferences = {
+  preset: "balanced",
+  weights: DEFAULT_PREFERENCES,
+};
+
+function loadSavedPreferences(): SavedPreferences {
+  try {
+    const saved = JSON.parse(
+      window.localStorage.getItem(PREFERENCES_STORAGE_KEY) || "null"
+    ) as Partial<SavedPreferences> | null;
+    const weights = { ...DEFAULT_PREFERENCES };
+    for (const key of PREFERENCE_KEYS) {
+      const weight = saved?.weights?.[key];
+      if (typeof weight === "number" && isValidPreferenceWeight(weight)) weights[key] = weight;
+    }
+    const preset =
+      saved?.preset === "custom"
+        ? "custom"
+        : (PRESET_OPTIONS.find((option) => option.value === saved?.preset)?.value ??
+          DEFAULT_SAVED_PREFERENCES.preset);
+    return { preset, weights };
+  } catch {
+    return DEFAULT_SAVED_PREFERENCES;
+  }
+}
+
+// Query values for the route and score APIs; balanced needs none.
+function preferenceParams({ preset, weights }: SavedPreferences) {
+  if (preset === "custom") return { prefs: formatScoringPreferences(weights) };
+  if (preset === "balanced") return {};
+  return { preset };
+}
+
+// "2 lights, 1 stop sign" for the directions list, or null for none.
+function describeStepCrossings(step: RouteStep) {
+  const parts: string[] = [];
+  const signals = step.traffic_signals ?? 0;
+  const stops = step.stop_signs ?? 0;
+  if (signals > 0) parts.push(`${signals} ${signals === 1 ? "light" : "lights"}`);
+  if (stops > 0) parts.push(`${stops} stop ${stops === 1 ? "sign" : "signs"}`);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+// The route's warnings, led by whatever accessible mode couldn't avoid.
+function describeRouteWarnings(option: RouteVariant, units: UnitSystem) {
+  const issues = option.quality.accessibility_issues;
+  if (!issues) return option.quality.warnings;
+  const parts: string[] = [];
+  if (issues.stairs > 0) {
+    parts.push(`${issues.stairs} ${issues.stairs === 1 ? "set" : "sets"} of stairs`);
+  }
+  if (issues.rough_m > 0) {
+    parts.push(`${formatStepDistance(issues.rough_m, units)} unpaved or gravel`);
+  }
+  if (issues.max_grade_pct !== null) {
+    parts.push(`grades up to ${issues.max_grade_pct.toFixed(0)}%`);
+  }
+  return [
+    `No fully accessible ${option.mode === "loop" ? "loop" : "route"} found nearby; this one has ${parts.join(", ")}.`,
+    ...option.quality.warnings,
+  ];
+}
+
+type RejoinRoute = {
+  geojson: GeoJSON.Feature<GeoJSON.LineString>;
+  distance_m: number;
+};
+
+// A simulated run replays a fix every half second, 15 m apart: roughly ten
+// times real running speed, so a whole route can be checked in minutes.
+const SIMULATION_INTERVAL_MS = 500;
+const SIMULATION_METERS_PER_FIX = 15;
+
+type AudioSettings = { muted: boolean; volume: number; turnLeads: TurnLeadPreset };
+
+const AUDIO_SETTINGS_STORAGE_KEY = "runroutr:audio";
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = { muted: false, volume: 1, turnLeads: "standard" };
+
+function loadSavedAudioSettings(): AudioSettings {
+  try {
+    const saved = JSON.parse(
+      window.localStorage.getItem(AUDIO_SETTINGS_STORAGE_KEY) || "null"
+    ) as Partial<AudioSettings> | null;
+    return {
+      muted: saved?.muted === true,
+      volume:
+        typeof saved?.volume === "number" && saved.volume >= 0 && saved.volume <= 1
+          ? saved.volume
+          : DEFAULT_AUDIO_SETTINGS.volume,
+      turnLeads:
+        saved?.turnLeads && saved.turnLeads in TURN_LEAD_PRESETS
+          ? saved.turnLeads
+          : DEFAULT_AUDIO_SETTINGS.turnLeads,
+    };
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+function speakCue(text: string, settings: AudioSettings) {
+  if (settings.muted || !("speechSynthesis" in window)) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.volume = settings.volume;
+  window.speechSynthesis.speak(utterance);
+}
+
+const EMPTY_LINE: GeoJSON.Feature<GeoJSON.LineString> = {
+  type: "Feature",
+  geometry: { type: "LineString", coordinates: [] },
+  properties: {},
+};
+
+const CONFIDENCE_BADGE_CLASSES: Record<RouteQuality["confidence"], string> = {
+  strong: "border-emerald-200 bg-emerald-50/85 text-emerald-700",
+  solid: "border-sky-200 bg-sky-50/85 text-sky-700",
+  mixed: "border-amber-200 bg-amber-50/85 text-amber-700",
 };
 
 export default function Map() {
   const mapContainerRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
   const markerRef = useRef<mapboxgl.Marker | null>(null);
+  const finishMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  const pinMarkersRef = useRef<mapboxgl.Marker[]>([]);
+  // Once the runner picks a start, a late geolocation fix must not move it.
+  const startChosenRef = useRef(false);
+  // Read by the map click handler, which is registered once on load.
+  const clickModeRef = useRef<MapClickMode>("start");
+  const avoidZonesDataRef = useRef<GeoJSON.FeatureCollection>(
+    buildAvoidZonesData([], [])
+  );
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  // Read by showStoredRoute, which can run from a mount effect before the
+  // restored units reach state.
+  const unitsRef = useRef<UnitSystem>("metric");
 
   const [center, setCenter] = useState<LngLat>(FALLBACK_CENTER);
   const [error, setError] = useState<string | null>(null);
 
   // distance state
+  const [units, setUnits] = useState<UnitSystem>("metric");
   const [km, setKm] = useState<number>(5);
   const [kmInput, setKmInput] = useState<string>("5");
-
-  const [route, setRoute] = useState<RouteVariant | null>(null);
+  const [targetType, setTargetType] = useState<TargetType>("distance");
+  const [minutes, setMinutes] = useState<number>(30);
+  const [minutesInput, setMinutesInput] = useState<string>("30");
+  const [paceProfiles, setPaceProfiles] = useState<SavedPaceProfiles>(DEFAULT_PACE_PROFILES);
+  const [paceInput, setPaceInput] = useState(
+    formatPaceInput(DEFAULT_PACE_PROFILES.paces.easy, "metric")
+  );
+  const [hills, setHills] = useState<HillPreference>("any");
+  const [surface, setSurface] = useState<SurfacePreference>("any");
+  const [accessible, setAccessible] = useState(false);
+  const [activity, setActivity] = useState<Activity>("run");
+  const [preferences, setPreferences] = useState<SavedPreferences>(DEFAULT_SAVED_PREFERENCES);
+  const [showPreferenceSliders, setShowPreferenceSliders] = useState(false);
+  const [mode, setMode] = useState<RouteMode>("loop");
+  const [finish, setFinish] = useState<LngLat | null>(null);
+  const [pins, setPins] = useState<LngLat[]>([]);
+  const [clickMode, setClickMode] = useState<MapClickMode>("start");
+  const [avoidZones, setAvoidZones] = useState<AvoidZone[]>([]);
+  const [draftZone, setDraftZone] = useState<AvoidZone>([]);
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<GeocodeResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const [routes, setRoutes] = useState<RouteVariant[]>([]);
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("gpx");
+
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry<RouteVariant>[]>([]);
+  const [libraryLoading, setLibraryLoading] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const [saveTags, setSaveTags] = useState("");
+  const [saveNotes, setSaveNotes] = useState("");
   const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
   const [routeError, setRouteError] = useState<string | null>(null);
 
   const [showDirections, setShowDirections] = useState(false);
@@ -71,6 +584,24 @@ export default function Map() {
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const toastTimeoutRef = useRef<number | null>(null);
 
+  // Turn-by-turn state during a run; null when not navigating.
+  const [navigation, setNavigation] = useState<NavigationState | null>(null);
+  const [rejoin, setRejoin] = useState<RejoinRoute | null>(null);
+  const [rerouting, setRerouting] = useState(false);
+  const [simulating, setSimulating] = useState(false);
+  // Read from position callbacks registered when the run starts.
+  const navigationRouteRef = useRef<NavigationRoute | null>(null);
+  const watchIdRef = useRef<number | null>(null);
+  const simulationTimerRef = useRef<number | null>(null);
+  const runnerMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const audioCueStateRef = useRef<AudioCueState>(createAudioCueState());
+
+  const route = useMemo(
+    () => routes.find((r) => r.id === selectedRouteId) ?? routes[0] ?? null,
+    [routes, selectedRouteId]
+  );
+
   // Create the map + base marker + empty route layer once
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
@@ -84,10 +615,37 @@ export default function Map() {
 
     map.addControl(new mapboxgl.NavigationControl(), "top-right");
 
-    const marker = new mapboxgl.Marker()
+    const marker = new mapboxgl.Marker({ draggable: true })
       .setLngLat([center.lng, center.lat])
       .addTo(map);
 
+    marker.on("dragend", () => {
+      const lngLat = marker.getLngLat();
+      startChosenRef.current = true;
+      setCenter({ lng: lngLat.lng, lat: lngLat.lat });
+      posthog.capture("route_start_changed", { source: "drag" });
+    });
+
+    // Clicking the map drops a must-visit pin or an avoid-zone corner while
+    // those tools are active, and moves the start otherwise
+    map.on("click", (e) => {
+      if (clickModeRef.current === "pin") {
+        const pin = { lng: e.lngLat.lng, lat: e.lngLat.lat };
+        setPins((prev) => (prev.length >= MAX_PINS ? prev : [...prev, pin]));
+        return;
+      }
+
+      if (clickModeRef.current === "avoid") {
+        setDraftZone((prev) => [...prev, [e.lngLat.lng, e.lngLat.lat]]);
+        return;
+      }
+
+      startChosenRef.current = true;
+      marker.setLngLat(e.lngLat);
+      setCenter({ lng: e.lngLat.lng, lat: e.lngLat.lat });
+      posthog.capture("route_start_changed", { source: "map_click" });
+    });
+
     map.on("load", () => {
       // Route source with empty line at first
       map.addSource("route", {
@@ -116,6 +674,42 @@ if (layers) {
   }
 }
 
+// Avoid zones sit underneath the route line
+map.addSource("avoid-zones", {
+  type: "geojson",
+  data: avoidZonesDataRef.current,
+});
+map.addLayer({
+  id: "avoid-zones-fill",
+  type: "fill",
+  source: "avoid-zones",
+  filter: ["==", ["get", "kind"], "zone"],
+  paint: { "fill-color": "#e11d48", "fill-opacity": 0.18 },
+}, labelLayerId);
+map.addLayer({
+  id: "avoid-zones-outline",
+  type: "line",
+  source: "avoid-zones",
+  filter: ["!=", ["get", "kind"], "draft-vertex"],
+  paint: {
+    "line-color": "#e11d48",
+    "line-width": 2,
+    "line-dasharray": [2, 1],
+  },
+}, labelLayerId);
+map.addLayer({
+  id: "avoid-zones-vertices",
+  type: "circle",
+  source: "avoid-zones",
+  filter: ["==", ["get", "kind"], "draft-vertex"],
+  paint: {
+    "circle-radius": 4,
+    "circle-color": "#ffffff",
+    "circle-stroke-color": "#e11d48",
+    "circle-stroke-width": 2,
+  },
+}, labelLayerId);
+
 // Subtle white casing under the route to make it pop on any background
 map.addLayer(
   {
@@ -166,6 +760,48 @@ map.addLayer(
   labelLayerId
 );
 
+// Already-run part of the route, greyed out over the main line during a run
+map.addSource("route-done", { type: "geojson", data: EMPTY_LINE });
+map.addLayer(
+  {
+    id: "route-done-line",
+    type: "line",
+    source: "route-done",
+    paint: {
+      "line-color": "#94a3b8", // slate-400
+      "line-width": [
+        "interpolate",
+        ["linear"],
+        ["zoom"],
+        10,
+        3,
+        13,
+        5,
+        16,
+        7,
+      ],
+      "line-opacity": 0.95,
+    },
+  },
+  labelLayerId
+);
+
+// Way back to the route for a runner who has strayed off it
+map.addSource("rejoin", { type: "geojson", data: EMPTY_LINE });
+map.addLayer(
+  {
+    id: "rejoin-line",
+    type: "line",
+    source: "rejoin",
+    paint: {
+      "line-color": "#e11d48",
+      "line-width": 4,
+      "line-dasharray": [1.5, 1],
+    },
+  },
+  labelLayerId
+);
+
 
       // Add arrow markers source
       map.addSource("route-arrows", {
@@ -211,6 +847,8 @@ map.addLayer(
         }
       };
       img.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(arrowSvg);
+
+      setMapReady(true);
     });
 
     mapRef.current = map;
@@ -241,6 +879,8 @@ map.addLayer(
 
     navigator.geolocation.getCurrentPosition(
       (pos) => {
+        if (startChosenRef.current) return;
+
         const newCenter = {
           lng: pos.coords.longitude,
           lat: pos.coords.latitude,
@@ -264,110 +904,736 @@ map.addLayer(
     );
   }, []);
 
-  // Helper function to calculate bearing between two points
-  function calculateBearing(
-    point1: [number, number],
-    point2: [number, number]
-  ): number {
-    const lat1 = (point1[1] * Math.PI) / 180;
-    const lat2 = (point2[1] * Math.PI) / 180;
-    const dLng = ((point2[0] - point1[0]) * Math.PI) / 180;
-
-    const y = Math.sin(dLng) * Math.cos(lat2);
-    const x =
-      Math.cos(lat1) * Math.sin(lat2) -
-      Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
-
-    const bearing = Math.atan2(y, x);
-    return ((bearing * 180) / Math.PI + 360) % 360;
-  }
+  // Show a draggable finish pin while planning a one-way run
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
 
-  function angleDifference(angle1: number, angle2: number): number {
-    let diff = Math.abs(angle1 - angle2);
-    if (diff > 180) diff = 360 - diff;
-    return diff;
-  }
+    if (mode !== "point-to-point" || !finish) {
+      finishMarkerRef.current?.remove();
+      finishMarkerRef.current = null;
+      return;
+    }
 
-  function isStraightStretch(
-    coordinates: [number, number][],
-    index: number,
-    windowSize: number = 5,
-    maxAngleChange: number = 15
-  ): boolean {
-    if (index < windowSize || index >= coordinates.length - windowSize) {
-      return false;
+    if (!finishMarkerRef.current) {
+      const marker = new mapboxgl.Marker({ color: "#e11d48", draggable: true })
+        .setLngLat([finish.lng, finish.lat])
+        .addTo(map);
+      marker.on("dragend", () => {
+        const lngLat = marker.getLngLat();
+        setFinish({ lng: lngLat.lng, lat: lngLat.lat });
+      });
+      finishMarkerRef.current = marker;
+      return;
     }
 
-    const prevStart = coordinates[index - windowSize];
-    const prevEnd = coordinates[index];
-    const nextStart = coordinates[index];
-    const nextEnd = coordinates[index + windowSize];
+    finishMarkerRef.current.setLngLat([finish.lng, finish.lat]);
+  }, [mode, finish]);
 
-    const prevBearing = calculateBearing(prevStart, prevEnd);
-    const nextBearing = calculateBearing(nextStart, nextEnd);
+  async function searchPlaces(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
 
-    const angleDiff = angleDifference(prevBearing, nextBearing);
-    return angleDiff <= maxAngleChange;
-  }
+    setSearching(true);
+    setSearchError(null);
+    try {
+      const params = new URLSearchParams({
+        q: query,
+        lat: String(center.lat),
+        lng: String(center.lng),
+      });
+      const res = await fetch(`/api/geocode?${params.toString()}`);
+      const data = (await res.json()) as GeocodeApiResponse & { error?: string };
+      if (!res.ok) throw new Error(data?.error || "Search failed");
 
-  function generateArrowMarkers(
-    coordinates: [number, number][]
-  ): GeoJSON.FeatureCollection {
-    if (coordinates.length < 10) {
-      return { type: "FeatureCollection", features: [] };
+      const results = Array.isArray(data?.results) ? data.results : [];
+      setSearchResults(results);
+      if (results.length === 0) setSearchError("No places found.");
+    } catch (err: unknown) {
+      setSearchResults([]);
+      setSearchError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setSearching(false);
     }
+  }
 
-    const features: GeoJSON.Feature[] = [];
-    const sampleSpacing = Math.max(3, Math.floor(coordinates.length / 20));
-    const minSpacing = Math.max(10, Math.floor(coordinates.length / 8));
-
-    let lastArrowIndex = -minSpacing;
+  function selectSearchResult(result: GeocodeResult) {
+    const nextStart = { lng: result.lng, lat: result.lat };
+    startChosenRef.current = true;
+    setCenter(nextStart);
+    markerRef.current?.setLngLat([nextStart.lng, nextStart.lat]);
+    mapRef.current?.flyTo({ center: [nextStart.lng, nextStart.lat], zoom: 14 });
+    setSearchResults([]);
+    setSearchQuery(result.name);
+    posthog.capture("route_start_changed", { source: "search" });
+  }
 
-    for (
-      let i = sampleSpacing * 2;
-      i < coordinates.length - sampleSpacing * 2;
-      i += sampleSpacing
-    ) {
-      if (i - lastArrowIndex < minSpacing) continue;
-      if (!isStraightStretch(coordinates, i)) continue;
+  useEffect(() => {
+    clickModeRef.current = clickMode;
+  }, [clickMode]);
 
-      const current = coordinates[i];
-      const lookAhead = Math.min(5, Math.floor((coordinates.length - i) / 2));
-      const next = coordinates[Math.min(i + lookAhead, coordinates.length - 1)];
+  // Restore avoid zones saved in an earlier session
+  useEffect(() => {
+    setAvoidZones(loadSavedAvoidZones());
+  }, []);
 
-      const bearing = calculateBearing(current, next);
+  // Restore spoken cue settings
+  useEffect(() => {
+    setAudioSettings(loadSavedAudioSettings());
+  }, []);
 
-      features.push({
-        type: "Feature",
-        properties: { bearing },
-        geometry: {
-          type: "Point",
-          coordinates: current,
-        },
-      });
+  // Restore the runner's route preferences
+  useEffect(() => {
+    setPreferences(loadSavedPreferences());
+  }, []);
 
-      lastArrowIndex = i;
-    }
+  // Restore accessible mode, which strollers and wheelchairs need every time
+  useEffect(() => {
+    setAccessible(loadSavedAccessible());
+  }, []);
 
-    return {
-      type: "FeatureCollection",
-      features,
-    };
-  }
+  // Restore the runner's units, activity and pace profiles
+  useEffect(() => {
+    const savedUnits = loadSavedUnits();
+    const savedActivity = loadSavedActivity();
+    const saved = loadSavedPaceProfiles();
+    unitsRef.current = savedUnits;
+    setUnits(savedUnits);
+    setActivity(savedActivity);
+    const target = defaultTargetDistance(savedActivity, savedUnits);
+    setKm(fromDistanceUnits(target, savedUnits) / 1000);
+    setKmInput(String(target));
+    setPaceProfiles(saved);
+    setPaceInput(formatPaceInput(saved.paces[saved.selected], savedUnits));
+  }, []);
 
-  // Update route source when route changes AND fit map to route
+  // Open a shared route from the link instead of generating a new one
   useEffect(() => {
-    const map = mapRef.current;
-    if (!map) return;
+    const value = new URLSearchParams(window.location.hash.slice(1)).get(
+      ROUTE_LINK_HASH_KEY
+    );
+    if (!value) return;
 
-    const source = map.getSource("route") as mapboxgl.GeoJSONSource | undefined;
-    const arrowSource = map.getSource(
-      "route-arrows"
-    ) as mapboxgl.GeoJSONSource | undefined;
+    startChosenRef.current = true;
+    // Drop the hash so later routes aren't replaced by it on reload.
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
 
-    if (!source) return;
+    decodeRouteLink<RouteVariant>(value).then((shared) => {
+      if (!shared) {
+        setRouteError("This share link is broken or incomplete.");
+        posthog.capture("shared_route_failed");
+        return;
+      }
 
-    if (!route) {
+      showStoredRoute(shared.route, shared.targetKm, shared.seed);
+      posthog.capture("shared_route_opened", {
+        route_km: Number((shared.route.distance_m / 1000).toFixed(2)),
+        mode: shared.route.mode,
+      });
+    });
+  }, []);
+
+  // Puts a route from a link or the library back on the map, along with the
+  // start, finish and stops it was planned with.
+  function showStoredRoute(storedRoute: RouteVariant, targetKm: number, storedSeed: number | null) {
+    const coords = storedRoute.geojson.geometry.coordinates;
+    const [startLng, startLat] = coords[0];
+    const [endLng, endLat] = coords[coords.length - 1];
+    startChosenRef.current = true;
+    setCenter({ lng: startLng, lat: startLat });
+    markerRef.current?.setLngLat([startLng, startLat]);
+    setKm(targetKm);
+    setKmInput(formatDistanceInput(targetKm, unitsRef.current));
+    setTargetType("distance");
+    setMode(storedRoute.mode);
+    setPins(storedRoute.pins ?? []);
+    setFinish(storedRoute.mode === "point-to-point" ? { lng: endLng, lat: endLat } : null);
+    setRoutes([storedRoute]);
+    setSelectedRouteId(storedRoute.id);
+    setSeed(storedSeed);
+    setRouteError(null);
+  }
+
+  async function refreshLibrary() {
+    setLibraryLoading(true);
+    try {
+      setLibraryEntries(await listLibraryEntries<RouteVariant>());
+      setLibraryError(null);
+    } catch (err: unknown) {
+      setLibraryError(err instanceof Error ? err.message : "Could not open the route library.");
+    } finally {
+      setLibraryLoading(false);
+    }
+  }
+
+  // Every generated option goes into the history so Regenerate never loses one.
+  async function recordHistory(generated: RouteVariant[], targetKm: number, usedSeed: number | null) {
+    const createdAt = new Date().toISOString();
+    const modeLabel = MODE_OPTIONS.find((option) => option.value === mode)?.label ?? mode;
+    try {
+      await putLibraryEntries(
+        generated.map((option, idx) => ({
+          id: createLibraryEntryId(),
+          kind: "history" as const,
+          name: `${modeLabel} ${formatDistance(option.distance_m, units, 1)} (option ${idx + 1})`,
+          tags: [],
+          notes: "",
+          created_at: createdAt,
+          target_km: targetKm,
+          seed: usedSeed,
+          route: option,
+        }))
+      );
+      await pruneLibraryHistory();
+    } catch (err) {
+      // History is a convenience; generation shouldn't fail because of it.
+      console.error("Could not record route history", err);
+    }
+  }
+
+  function openLibrary() {
+    setShowLibrary(true);
+    void refreshLibrary();
+    posthog.capture("route_library_opened");
+  }
+
+  function openSaveForm() {
+    if (!route) return;
+    const modeLabel = MODE_OPTIONS.find((option) => option.value === route.mode)?.label;
+    setSaveName(
+      route.imported_name ??
+        `${modeLabel ?? "Route"} ${formatDistance(route.distance_m, units, 1)}`
+    );
+    setSaveTags("");
+    setSaveNotes("");
+    setShowSaveForm(true);
+  }
+
+  async function handleSaveRoute(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!route) return;
+
+    const tags = [
+      ...new Set(
+        saveTags
+          .split(",")
+          .map((tag) => tag.trim().replace(/^#/, ""))
+          .filter(Boolean)
+      ),
+    ];
+    try {
+      await putLibraryEntries([
+        {
+          id: createLibraryEntryId(),
+          kind: "saved",
+          name: saveName.trim() || "Untitled route",
+          tags,
+          notes: saveNotes.trim(),
+          created_at: new Date().toISOString(),
+          target_km: targetKm,
+          seed,
+          route,
+        },
+      ]);
+      setShowSaveForm(false);
+      posthog.capture("route_saved", {
+        route_km: Number((route.distance_m / 1000).toFixed(2)),
+        tag_count: tags.length,
+      });
+      showToast("Route saved to your library.");
+    } catch (err: unknown) {
+      setRouteError(err instanceof Error ? err.message : "Could not save the route.");
+    }
+  }
+
+  function loadLibraryEntry(entry: LibraryEntry<RouteVariant>) {
+    showStoredRoute(entry.route, entry.target_km, entry.seed);
+    setShowLibrary(false);
+    posthog.capture("library_route_loaded", { kind: entry.kind });
+  }
+
+  async function renameLibraryEntry(entry: LibraryEntry<RouteVariant>, name: string) {
+    try {
+      await putLibraryEntries([{ ...entry, name }]);
+      await refreshLibrary();
+    } catch (err: unknown) {
+      setLibraryError(err instanceof Error ? err.message : "Could not rename the route.");
+    }
+  }
+
+  async function deleteLibraryRoutes(ids: string[]) {
+    if (ids.length === 0) return;
+    try {
+      await deleteLibraryEntries(ids);
+      await refreshLibrary();
+      posthog.capture("library_routes_deleted", { count: ids.length });
+    } catch (err: unknown) {
+      setLibraryError(err instanceof Error ? err.message : "Could not delete routes.");
+    }
+  }
+
+  function exportLibraryRoutes(entries: LibraryEntry<RouteVariant>[]) {
+    try {
+      const gpx = routesToGpx(
+        entries.map((entry) => ({
+          route: entry.route.geojson,
+          name: entry.name,
+          description: entry.notes || undefined,
+        }))
+      );
+      const filename = `run-routr-library-${formatExportDate(new Date())}.gpx`;
+      downloadFile(filename, gpx, "application/gpx+xml;charset=utf-8");
+      posthog.capture("library_routes_exported", { count: entries.length });
+    } catch (err: unknown) {
+      setLibraryError(err instanceof Error ? err.message : "Could not export routes.");
+    }
+  }
+
+  // Scores a GPX, TCX or GeoJSON route with the generator's metrics and shows
+  // it next to the current options so the two can be compared.
+  async function importRouteFile(file: File) {
+    setImporting(true);
+    setRouteError(null);
+
+    try {
+      const imported = parseRouteFile(file.name, await file.text());
+      const res = await fetch("/api/score", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          coordinates: imported.coordinates,
+          km: targetKm,
+          hills: hills === "any" ? undefined : hills,
+          surface: surface === "any" ? undefined : surface,
+          accessible: accessible || undefined,
+          activity,
+          pace,
+          ...preferenceParams(preferences),
+        }),
+      });
+      const data = (await res.json()) as ScoreApiResponse & { error?: string };
+      if (!res.ok) throw new Error(data?.error || "Could not score the imported route.");
+
+      const importedRoute: RouteVariant = {
+        id: `imported-${Date.now()}`,
+        mode: data.mode,
+        pins: [],
+        geojson: {
+          type: "Feature",
+          properties: {},
+          geometry: { type: "LineString", coordinates: imported.coordinates },
+        },
+        distance_m: data.distance_m,
+        duration_s: data.duration_s,
+        steps: [],
+        quality: data.quality,
+        imported_name: imported.name,
+      };
+      // Only one imported route at a time, alongside the generated options.
+      setRoutes((prev) => [...prev.filter((r) => !r.imported_name), importedRoute]);
+      setSelectedRouteId(importedRoute.id);
+      posthog.capture("route_imported", {
+        format: imported.format,
+        route_km: Number((data.distance_m / 1000).toFixed(2)),
+        route_confidence: data.quality.confidence,
+        street_matched: data.matched,
+      });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Could not import that file.";
+      posthog.capture("route_import_failed", { error: message });
+      setRouteError(message);
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  function handleImportDrop(e: DragEvent<HTMLDivElement>) {
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files[0];
+    if (file) void importRouteFile(file);
+  }
+
+  function handleNavigationFix(fix: NavigationFix) {
+    const navigationRoute = navigationRouteRef.current;
+    if (!navigationRoute) return;
+    setNavigation((prev) => (prev ? updateNavigation(navigationRoute, prev, fix) : prev));
+    runnerMarkerRef.current?.setLngLat([fix.lng, fix.lat]);
+    mapRef.current?.easeTo({ center: [fix.lng, fix.lat], duration: 400 });
+  }
+
+  function stopPositionFeeds() {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    if (simulationTimerRef.current !== null) {
+      window.clearInterval(simulationTimerRef.current);
+      simulationTimerRef.current = null;
+    }
+    setSimulating(false);
+  }
+
+  // Follows the runner along the selected route with the next turn and how
+  // far away it is.
+  function startNavigation() {
+    if (!route) return;
+
+    const coords = route.geojson.geometry.coordinates as [number, number][];
+    const navigationRoute = prepareNavigationRoute(coords, route.steps);
+    navigationRouteRef.current = navigationRoute;
+    audioCueStateRef.current = createAudioCueState();
+    setNavigation(createNavigationState(navigationRoute));
+    setRejoin(null);
+    setShowDirections(false);
+    setShowMobileRouteForm(false);
+    setRouteError(null);
+
+    const map = mapRef.current;
+    if (map && !runnerMarkerRef.current) {
+      const dot = document.createElement("div");
+      dot.className = "h-4 w-4 rounded-full border-2 border-white bg-sky-600 shadow-md";
+      runnerMarkerRef.current = new mapboxgl.Marker({ element: dot })
+        .setLngLat(coords[0])
+        .addTo(map);
+    }
+
+    if (navigator.geolocation) {
+      watchIdRef.current = navigator.geolocation.watchPosition(
+        (pos) =>
+          handleNavigationFix({
+            lng: pos.coords.longitude,
+            lat: pos.coords.latitude,
+            accuracy_m: pos.coords.accuracy,
+            time_ms: pos.timestamp,
+          }),
+        () => setRouteError("Could not get your location. Check that location access is allowed."),
+        { enableHighAccuracy: true, maximumAge: 0 }
+      );
+    } else {
+      setRouteError("Geolocation not supported. Simulate a run from a GPX file instead.");
+    }
+
+    posthog.capture("navigation_started", {
+      route_km: Number((route.distance_m / 1000).toFixed(2)),
+      cue_count: navigationRoute.cues.length,
+      mode: route.mode,
+    });
+  }
+
+  function stopNavigation() {
+    stopPositionFeeds();
+    if ("speechSynthesis" in window) window.speechSynthesis.cancel();
+    if (navigation) {
+      posthog.capture("navigation_ended", {
+        progress_km: Number((navigation.progress_m / 1000).toFixed(2)),
+        finished: navigation.finished,
+      });
+    }
+    navigationRouteRef.current = null;
+    setNavigation(null);
+    setRejoin(null);
+    runnerMarkerRef.current?.remove();
+    runnerMarkerRef.current = null;
+  }
+
+  // Replays a GPX (or TCX/GeoJSON) line as GPS fixes in place of the real
+  // location, starting the run over.
+  async function simulateNavigation(file: File) {
+    const navigationRoute = navigationRouteRef.current;
+    if (!navigationRoute) return;
+
+    try {
+      const recorded = parseRouteFile(file.name, await file.text());
+      const fixes = createSimulatedFixes(
+        recorded.coordinates,
+        SIMULATION_METERS_PER_FIX,
+        pace
+      );
+
+      stopPositionFeeds();
+      audioCueStateRef.current = createAudioCueState();
+      setNavigation(createNavigationState(navigationRoute));
+      setRejoin(null);
+      setSimulating(true);
+
+      let next = 0;
+      simulationTimerRef.current = window.setInterval(() => {
+        if (next >= fixes.length) {
+          stopPositionFeeds();
+          return;
+        }
+        handleNavigationFix(fixes[next++]);
+      }, SIMULATION_INTERVAL_MS);
+      posthog.capture("navigation_simulated", {
+        format: recorded.format,
+        fix_count: fixes.length,
+      });
+    } catch (err: unknown) {
+      setRouteError(err instanceof Error ? err.message : "Could not read that file.");
+    }
+  }
+
+  // Asks the router for a way from the runner back to the route, a little
+  // ahead of where they left it.
+  async function rerouteToRoute() {
+    const navigationRoute = navigationRouteRef.current;
+    if (!navigationRoute || !navigation?.position) return;
+
+    setRerouting(true);
+    try {
+      const [toLng, toLat] = rejoinPoint(navigationRoute, navigation);
+      const params = new URLSearchParams({
+        from: navigation.position.join(","),
+        to: `${toLng},${toLat}`,
+        pace: String(pace),
+        activity,
+      });
+      const res = await fetch(`/api/reroute?${params.toString()}`);
+      const data = (await res.json()) as RejoinRoute & { error?: string };
+      if (!res.ok) throw new Error(data?.error || "Could not find a way back to the route.");
+
+      setRejoin({ geojson: data.geojson, distance_m: data.distance_m });
+      posthog.capture("navigation_rerouted", { rejoin_m: Math.round(data.distance_m) });
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : "Could not find a way back to the route.";
+      posthog.capture("navigation_reroute_failed", { error: message });
+      setRouteError(message);
+    } finally {
+      setRerouting(false);
+    }
+  }
+
+  function changeAudioSettings(next: AudioSettings) {
+    setAudioSettings(next);
+    try {
+      window.localStorage.setItem(AUDIO_SETTINGS_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Without storage the settings only last for this session.
+    }
+    if (next.muted && "speechSynthesis" in window) window.speechSynthesis.cancel();
+  }
+
+  // Speak turns, splits and milestones as the run goes on
+  useEffect(() => {
+    if (!navigation) return;
+    const { cues, state } = scheduleAudioCues(navigation, audioCueStateRef.current, {
+      units,
+      turnLeadsM: TURN_LEAD_PRESETS[audioSettings.turnLeads],
+    });
+    audioCueStateRef.current = state;
+    for (const cue of cues) speakCue(cue.text, audioSettings);
+  }, [navigation, audioSettings, units]);
+
+  // Grey out the part of the route already run
+  const navigationProgress = navigation?.progress_m ?? null;
+  useEffect(() => {
+    const source = mapRef.current?.getSource("route-done") as
+      | mapboxgl.GeoJSONSource
+      | undefined;
+    if (!source) return;
+
+    const navigationRoute = navigationRouteRef.current;
+    source.setData(
+      navigationRoute && navigationProgress !== null
+        ? {
+            ...EMPTY_LINE,
+            geometry: {
+              type: "LineString",
+              coordinates: completedLine(navigationRoute, navigationProgress),
+            },
+          }
+        : EMPTY_LINE
+    );
+  }, [navigationProgress, mapReady]);
+
+  // Show the way back only while the runner is still off the route
+  const offRoute = navigation?.off_route ?? false;
+  useEffect(() => {
+    const source = mapRef.current?.getSource("rejoin") as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(rejoin && offRoute ? rejoin.geojson : EMPTY_LINE);
+  }, [rejoin, offRoute, mapReady]);
+
+  // Stop watching the position if the page goes away mid-run
+  useEffect(() => {
+    return () => {
+      if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+      if (simulationTimerRef.current !== null) window.clearInterval(simulationTimerRef.current);
+    };
+  }, []);
+
+  // Redraw avoid zones and the zone being drawn
+  useEffect(() => {
+    avoidZonesDataRef.current = buildAvoidZonesData(avoidZones, draftZone);
+    const source = mapRef.current?.getSource("avoid-zones") as
+      | mapboxgl.GeoJSONSource
+      | undefined;
+    source?.setData(avoidZonesDataRef.current);
+  }, [avoidZones, draftZone]);
+
+  function saveAvoidZones(nextZones: AvoidZone[]) {
+    setAvoidZones(nextZones);
+    try {
+      window.localStorage.setItem(AVOID_ZONES_STORAGE_KEY, JSON.stringify(nextZones));
+    } catch {
+      // Storage can be full or disabled; zones still apply for this session.
+    }
+  }
+
+  function toggleClickMode(nextMode: MapClickMode) {
+    setClickMode((prev) => (prev === nextMode ? "start" : nextMode));
+    setDraftZone([]);
+  }
+
+  function finishAvoidZone() {
+    if (draftZone.length < 3) return;
+    saveAvoidZones([...avoidZones, draftZone].slice(-MAX_AVOID_ZONES));
+    setDraftZone([]);
+    setClickMode("start");
+    posthog.capture("avoid_zone_added", {
+      vertex_count: draftZone.length,
+      zone_count: Math.min(avoidZones.length + 1, MAX_AVOID_ZONES),
+    });
+  }
+
+  // Mirror the must-visit pins onto the map as draggable markers
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    pinMarkersRef.current.forEach((marker) => marker.remove());
+    pinMarkersRef.current = pins.map((pin, idx) => {
+      const marker = new mapboxgl.Marker({ color: "#16a34a", draggable: true })
+        .setLngLat([pin.lng, pin.lat])
+        .addTo(map);
+      marker.on("dragend", () => {
+        const lngLat = marker.getLngLat();
+        setPins((prev) =>
+          prev.map((p, i) => (i === idx ? { lng: lngLat.lng, lat: lngLat.lat } : p))
+        );
+      });
+      return marker;
+    });
+  }, [pins]);
+
+  function changeMode(nextMode: RouteMode) {
+    setMode(nextMode);
+    if (nextMode === "point-to-point" && !finish) {
+      // Drop the finish pin east of the start, roughly half the target away.
+      const offsetKm = Math.max(0.5, (isTargetValid ? targetKm : 5) * 0.5);
+      setFinish({
+        lat: center.lat,
+        lng: center.lng + offsetKm / (111.32 * Math.cos((center.lat * Math.PI) / 180)),
+      });
+    }
+  }
+
+  // Helper function to calculate bearing between two points
+  function calculateBearing(
+    point1: [number, number],
+    point2: [number, number]
+  ): number {
+    const lat1 = (point1[1] * Math.PI) / 180;
+    const lat2 = (point2[1] * Math.PI) / 180;
+    const dLng = ((point2[0] - point1[0]) * Math.PI) / 180;
+
+    const y = Math.sin(dLng) * Math.cos(lat2);
+    const x =
+      Math.cos(lat1) * Math.sin(lat2) -
+      Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+
+    const bearing = Math.atan2(y, x);
+    return ((bearing * 180) / Math.PI + 360) % 360;
+  }
+
+  function angleDifference(angle1: number, angle2: number): number {
+    let diff = Math.abs(angle1 - angle2);
+    if (diff > 180) diff = 360 - diff;
+    return diff;
+  }
+
+  function isStraightStretch(
+    coordinates: [number, number][],
+    index: number,
+    windowSize: number = 5,
+    maxAngleChange: number = 15
+  ): boolean {
+    if (index < windowSize || index >= coordinates.length - windowSize) {
+      return false;
+    }
+
+    const prevStart = coordinates[index - windowSize];
+    const prevEnd = coordinates[index];
+    const nextStart = coordinates[index];
+    const nextEnd = coordinates[index + windowSize];
+
+    const prevBearing = calculateBearing(prevStart, prevEnd);
+    const nextBearing = calculateBearing(nextStart, nextEnd);
+
+    const angleDiff = angleDifference(prevBearing, nextBearing);
+    return angleDiff <= maxAngleChange;
+  }
+
+  function generateArrowMarkers(
+    coordinates: [number, number][]
+  ): GeoJSON.FeatureCollection {
+    if (coordinates.length < 10) {
+      return { type: "FeatureCollection", features: [] };
+    }
+
+    const features: GeoJSON.Feature[] = [];
+    const sampleSpacing = Math.max(3, Math.floor(coordinates.length / 20));
+    const minSpacing = Math.max(10, Math.floor(coordinates.length / 8));
+
+    let lastArrowIndex = -minSpacing;
+
+    for (
+      let i = sampleSpacing * 2;
+      i < coordinates.length - sampleSpacing * 2;
+      i += sampleSpacing
+    ) {
+      if (i - lastArrowIndex < minSpacing) continue;
+      if (!isStraightStretch(coordinates, i)) continue;
+
+      const current = coordinates[i];
+      const lookAhead = Math.min(5, Math.floor((coordinates.length - i) / 2));
+      const next = coordinates[Math.min(i + lookAhead, coordinates.length - 1)];
+
+      const bearing = calculateBearing(current, next);
+
+      features.push({
+        type: "Feature",
+        properties: { bearing },
+        geometry: {
+          type: "Point",
+          coordinates: current,
+        },
+      });
+
+      lastArrowIndex = i;
+    }
+
+    return {
+      type: "FeatureCollection",
+      features,
+    };
+  }
+
+  // Update route source when route changes AND fit map to route
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const source = map.getSource("route") as mapboxgl.GeoJSONSource | undefined;
+    const arrowSource = map.getSource(
+      "route-arrows"
+    ) as mapboxgl.GeoJSONSource | undefined;
+
+    if (!source) return;
+
+    if (!route) {
       source.setData({
         type: "Feature",
         geometry: { type: "LineString", coordinates: [] },
@@ -418,38 +1684,153 @@ map.addLayer(
       maxZoom: 15,
       duration: 800,
     });
-  }, [route]);
+  }, [route, mapReady]);
 
   const distanceLabel = useMemo(() => {
     if (!route) return null;
 
-    const kmVal = route.distance_m / 1000;
-    const minVal = route.duration_s / 60;
-    const paceMinPerKm = minVal / kmVal;
+    const paceSecondsPerKm = route.duration_s / (route.distance_m / 1000);
+    return `${formatDistance(route.distance_m, units)} • ~${Math.round(
+      route.duration_s / 60
+    )} min @ ${formatPace(paceSecondsPerKm, units)}`;
+  }, [route, units]);
 
-    const paceMin = Math.floor(paceMinPerKm);
-    const paceSec = Math.round((paceMinPerKm - paceMin) * 60);
+  const pace = paceProfiles.paces[paceProfiles.selected];
+  // The server checks pace against the activity's limits, so the input does too.
+  const paceModel = ACTIVITY_PROFILES[activity].paceModel;
 
-    return `${kmVal.toFixed(2)} km • ~${Math.round(
-      minVal
-    )} min @ ${paceMin}:${paceSec.toString().padStart(2, "0")} / km`;
-  }, [route]);
+  // A time target is turned into a distance at the current pace.
+  const targetKm = targetType === "duration" ? (minutes * 60) / pace : km;
 
-  const isKmValid = useMemo(
-    () => Number.isFinite(km) && km > 0.2 && km < 100,
-    [km]
+  const isTargetValid = useMemo(
+    () => Number.isFinite(targetKm) && targetKm > 0.2 && targetKm < 100,
+    [targetKm]
   );
 
+  function savePaceProfiles(next: SavedPaceProfiles) {
+    setPaceProfiles(next);
+    try {
+      window.localStorage.setItem(PACE_PROFILES_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Without storage the edited paces only last for this session.
+    }
+  }
+
+  function selectPaceProfile(profile: PaceProfile) {
+    savePaceProfiles({ ...paceProfiles, selected: profile });
+    setPaceInput(formatPaceInput(paceProfiles.paces[profile], units));
+  }
+
+  function changePaceInput(value: string) {
+    setPaceInput(value);
+    const seconds = parsePace(value, units, paceModel);
+    if (seconds === null) return;
+    savePaceProfiles({
+      ...paceProfiles,
+      paces: { ...paceProfiles.paces, [paceProfiles.selected]: seconds },
+    });
+  }
+
+  function savePreferences(next: SavedPreferences) {
+    setPreferences(next);
+    try {
+      window.localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Without storage the preferences only last for this session.
+    }
+  }
+
+  function selectPreferencePreset(preset: PreferencePreset) {
+    savePreferences({ preset, weights: PREFERENCE_PRESETS[preset] });
+    posthog.capture("route_preferences_preset_selected", { preset });
+  }
+
+  function changePreferenceWeight(key: PreferenceKey, weight: number) {
+    savePreferences({ preset: "custom", weights: { ...preferences.weights, [key]: weight } });
+  }
+
+  function selectActivity(next: Activity) {
+    if (next === activity) return;
+    setActivity(next);
+    try {
+      window.localStorage.setItem(ACTIVITY_STORAGE_KEY, next);
+    } catch {
+      // Without storage the choice only lasts for this session.
+    }
+    // Rides and runs are such different distances that switching between
+    // them starts from a typical target instead.
+    if ((activity === "cycle") !== (next === "cycle")) {
+      const target = defaultTargetDistance(next, units);
+      setKm(fromDistanceUnits(target, units) / 1000);
+      setKmInput(String(target));
+    }
+    const isFootPace = paceProfiles.selected !== "walk" && paceProfiles.selected !== "ride";
+    const paceProfile = ACTIVITY_PACE_PROFILES[next] ?? (isFootPace ? null : "easy");
+    if (paceProfile) selectPaceProfile(paceProfile);
+    posthog.capture("activity_changed", { activity: next });
+  }
+
+  function changeAccessible(next: boolean) {
+    setAccessible(next);
+    try {
+      window.localStorage.setItem(ACCESSIBLE_STORAGE_KEY, next ? "1" : "0");
+    } catch {
+      // Without storage the choice only lasts for this session.
+    }
+    posthog.capture("accessible_mode_changed", { accessible: next });
+  }
+
+  function changeUnits(next: UnitSystem) {
+    if (next === units) return;
+    unitsRef.current = next;
+    setUnits(next);
+    setKmInput(formatDistanceInput(km, next));
+    setPaceInput(formatPaceInput(pace, next));
+    try {
+      window.localStorage.setItem(UNITS_STORAGE_KEY, next);
+    } catch {
+      // Without storage the choice only lasts for this session.
+    }
+    posthog.capture("units_changed", { units: next });
+  }
+
   const selectedQuality = route?.quality ?? null;
+  const selectedSurface = selectedQuality?.surface_breakdown;
+  const unpavedRatio = selectedSurface ? selectedSurface.unpaved + selectedSurface.gravel : 0;
+
+  function selectRoute(routeId: string) {
+    if (routeId === selectedRouteId) return;
+    const optionIndex = routes.findIndex((r) => r.id === routeId);
+    if (optionIndex < 0) return;
+
+    setSelectedRouteId(routeId);
+    posthog.capture("route_alternative_selected", {
+      option_index: optionIndex,
+      option_count: routes.length,
+      route_confidence: routes[optionIndex].quality.confidence,
+    });
+  }
 
-  async function generateRoute() {
+  // Passing the previous seed regenerates the same options; leaving it out
+  // lets the server pick a fresh one.
+  async function generateRoute(options: { seed?: number } = {}) {
     if (!center) return;
 
-    if (!isKmValid) {
-      setRouteError("Please enter a valid distance in km (e.g. 3, 5.5).");
-      posthog.capture("route_generate_invalid_distance", {
-        km_input: kmInput,
-      });
+    if (!isTargetValid) {
+      setRouteError(
+        targetType === "duration"
+          ? "Please enter a valid time in minutes (e.g. 30, 45)."
+          : `Please enter a valid distance in ${distanceUnit(units)} (e.g. 3, 5.5).`
+      );
+      posthog.capture("route_generate_invalid_distance", {
+        km_input: targetType === "duration" ? null : kmInput,
+        minutes_input: targetType === "duration" ? minutesInput : null,
+      });
+      return;
+    }
+
+    if (mode === "point-to-point" && !finish) {
+      setRouteError("Drag the finish pin to where you want to end up.");
       return;
     }
 
@@ -457,39 +1838,87 @@ map.addLayer(
     setRouteError(null);
     setShowDirections(false);
     posthog.capture("route_generate_requested", {
-      target_km: km,
+      target_km: Number(targetKm.toFixed(2)),
+      target_type: targetType,
+      pace_profile: paceProfiles.selected,
+      pace_s_per_km: pace,
       start_lat: Number(center.lat.toFixed(5)),
       start_lng: Number(center.lng.toFixed(5)),
+      hills,
+      surface,
+      accessible,
+      activity,
+      mode,
+      preference_preset: preferences.preset,
+      pin_count: pins.length,
+      avoid_zone_count: avoidZones.length,
+      reused_seed: options.seed !== undefined,
     });
 
     try {
-      const res = await fetch(
-        `/api/route?lat=${center.lat}&lng=${center.lng}&km=${km}`
-      );
+      const params = new URLSearchParams({
+        lat: String(center.lat),
+        lng: String(center.lng),
+        pace: String(pace),
+      });
+      if (targetType === "duration") params.set("minutes", String(minutes));
+      else if (units === "imperial") params.set("mi", formatDistanceInput(km, units));
+      else params.set("km", String(km));
+      if (hills !== "any") params.set("hills", hills);
+      if (surface !== "any") params.set("surface", surface);
+      if (accessible) params.set("accessible", "1");
+      if (activity !== "run") params.set("activity", activity);
+      if (mode !== "loop") params.set("mode", mode);
+      if (mode === "point-to-point" && finish) {
+        params.set("end_lat", String(finish.lat));
+        params.set("end_lng", String(finish.lng));
+      }
+      if (pins.length > 0) {
+        params.set("via", pins.map((pin) => `${pin.lng},${pin.lat}`).join(";"));
+      }
+      if (avoidZones.length > 0) {
+        params.set("avoid", JSON.stringify(avoidZones));
+      }
+      for (const [key, value] of Object.entries(preferenceParams(preferences))) {
+        params.set(key, value);
+      }
+      if (options.seed !== undefined) params.set("seed", String(options.seed));
+
+      const res = await fetch(`/api/route?${params.toString()}`);
       const data = (await res.json()) as RouteApiResponse & { error?: string };
       if (!res.ok) throw new Error(data?.error || "Failed to generate route");
 
-      setRoute(data.route ?? null);
+      const nextRoutes = Array.isArray(data?.routes) ? data.routes : [];
+      const bestRoute = nextRoutes[0] ?? null;
+      setRoutes(nextRoutes);
+      setSelectedRouteId(bestRoute?.id ?? null);
+      setSeed(typeof data?.seed === "number" ? data.seed : null);
+      void recordHistory(
+        nextRoutes,
+        typeof data?.target_km === "number" ? data.target_km : targetKm,
+        typeof data?.seed === "number" ? data.seed : null
+      );
       setShowMobileRouteForm(false);
       posthog.capture("route_generated", {
-        target_km: km,
+        target_km: Number(targetKm.toFixed(2)),
         route_km:
-          typeof data?.route?.distance_m === "number"
-            ? Number((data.route.distance_m / 1000).toFixed(2))
+          typeof bestRoute?.distance_m === "number"
+            ? Number((bestRoute.distance_m / 1000).toFixed(2))
             : null,
         duration_min:
-          typeof data?.route?.duration_s === "number"
-            ? Math.round(data.route.duration_s / 60)
+          typeof bestRoute?.duration_s === "number"
+            ? Math.round(bestRoute.duration_s / 60)
             : null,
-        step_count: Array.isArray(data?.route?.steps) ? data.route.steps.length : null,
-        route_confidence: data?.route?.quality?.confidence ?? null,
+        step_count: Array.isArray(bestRoute?.steps) ? bestRoute.steps.length : null,
+        route_confidence: bestRoute?.quality?.confidence ?? null,
+        option_count: nextRoutes.length,
       });
     } catch (err: unknown) {
       console.error(err);
       const message =
         err instanceof Error ? err.message : "Could not generate route";
       posthog.capture("route_generate_failed", {
-        target_km: km,
+        target_km: Number(targetKm.toFixed(2)),
         error: message,
       });
       setRouteError(
@@ -518,7 +1947,7 @@ map.addLayer(
     return `${year}-${month}-${day}`;
   }
 
-  function downloadTextFile(filename: string, content: string, mimeType: string) {
+  function downloadFile(filename: string, content: BlobPart, mimeType: string) {
     const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const anchor = document.createElement("a");
@@ -534,13 +1963,20 @@ map.addLayer(
     if (!route) return;
 
     try {
-      const description = `${(route.distance_m / 1000).toFixed(2)} km • ~${Math.round(
+      const description = `${formatDistance(route.distance_m, units)} • ~${Math.round(
         route.duration_s / 60
       )} min`;
 
       const gpx = routeToGpx(route.geojson, {
         name: "Run Routr Route",
         description,
+        link: { href: window.location.origin, text: "RunRoutr" },
+        waypoints: route.pins.map((pin, idx) => ({ ...pin, name: `Stop ${idx + 1}` })),
+        steps: route.steps,
+        includeRoute: true,
+        // The route's own estimate already reflects pace and hills.
+        paceSecondsPerKm: route.duration_s / (route.distance_m / 1000),
+        startTime: new Date(),
       });
 
       const validation = validateGpxTrackMatchesRoute(gpx, route.geojson);
@@ -549,7 +1985,7 @@ map.addLayer(
       }
 
       const filename = `run-routr-${formatExportDate(new Date())}.gpx`;
-      downloadTextFile(filename, gpx, "application/gpx+xml;charset=utf-8");
+      downloadFile(filename, gpx, "application/gpx+xml;charset=utf-8");
       posthog.capture("gpx_exported", {
         route_km: Number((route.distance_m / 1000).toFixed(2)),
         step_count: route.steps?.length ?? 0,
@@ -566,12 +2002,567 @@ map.addLayer(
     }
   }
 
-  const targetLabel = isKmValid ? `${km.toFixed(1)} km` : "invalid distance";
+  // TCX courses carry the turn cues, which watches show as turn alerts.
+  function handleExportTcx() {
+    if (!route) return;
+
+    try {
+      const tcx = routeToTcx(route.geojson, {
+        name: `RunRoutr ${formatDistance(route.distance_m, units, 1).replace(" ", "")}`,
+        steps: route.steps,
+        durationSeconds: route.duration_s,
+      });
+
+      const validation = validateTcxCourseMatchesRoute(tcx, route.geojson);
+      if (!validation.ok) {
+        throw new Error(validation.reason || "TCX validation failed.");
+      }
+
+      const filename = `run-routr-${formatExportDate(new Date())}.tcx`;
+      downloadFile(filename, tcx, "application/vnd.garmin.tcx+xml;charset=utf-8");
+      posthog.capture("tcx_exported", {
+        route_km: Number((route.distance_m / 1000).toFixed(2)),
+        step_count: route.steps?.length ?? 0,
+        route_confidence: route.quality.confidence,
+      });
+      showToast(
+        "Downloaded TCX course. Import into Garmin Connect or Wahoo to get turn alerts."
+      );
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : "Could not export route as TCX.";
+      posthog.capture("tcx_export_failed", { error: message });
+      setRouteError(message);
+    }
+  }
+
+  // FIT is what Garmin devices use natively, so it can go straight onto the watch.
+  function handleExportFit() {
+    if (!route) return;
+
+    try {
+      const fit = routeToFit(route.geojson, {
+        name: `RunRoutr ${formatDistance(route.distance_m, units, 1).replace(" ", "")}`,
+        steps: route.steps,
+        durationSeconds: route.duration_s,
+        activity,
+      });
+
+      const validation = validateFitCourseMatchesRoute(fit, route.geojson);
+      if (!validation.ok) {
+        throw new Error(validation.reason || "FIT validation failed.");
+      }
+
+      const filename = `run-routr-${formatExportDate(new Date())}.fit`;
+      downloadFile(filename, fit, "application/vnd.ant.fit");
+      posthog.capture("fit_exported", {
+        route_km: Number((route.distance_m / 1000).toFixed(2)),
+        step_count: route.steps?.length ?? 0,
+        route_confidence: route.quality.confidence,
+      });
+      showToast(
+        "Downloaded FIT course. Copy it to Garmin/NewFiles on your watch or import into Garmin Connect."
+      );
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : "Could not export route as FIT.";
+      posthog.capture("fit_export_failed", { error: message });
+      setRouteError(message);
+    }
+  }
+
+  function handleExport() {
+    if (exportFormat === "tcx") {
+      handleExportTcx();
+    } else if (exportFormat === "fit") {
+      handleExportFit();
+    } else {
+      handleExportGpx();
+    }
+  }
+
+  const exportLabel =
+    EXPORT_FORMATS.find((option) => option.value === exportFormat)?.label ?? "GPX";
+
+  async function handleCopyLink() {
+    if (!route) return;
+
+    try {
+      const encoded = await encodeRouteLink(route, { targetKm, seed });
+      const url = `${window.location.origin}${window.location.pathname}#${ROUTE_LINK_HASH_KEY}=${encoded}`;
+      await navigator.clipboard.writeText(url);
+      posthog.capture("route_link_copied", {
+        route_km: Number((route.distance_m / 1000).toFixed(2)),
+        link_length: url.length,
+      });
+      showToast("Link copied. Anyone who opens it sees this exact route.");
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Could not copy the link.";
+      posthog.capture("route_link_copy_failed", { error: message });
+      setRouteError("Could not copy the link. Check that clipboard access is allowed.");
+    }
+  }
+
+  const targetLabel = !isTargetValid
+    ? targetType === "duration"
+      ? "invalid time"
+      : "invalid distance"
+    : targetType === "duration"
+      ? `${minutes} min (~${formatDistance(targetKm * 1000, units, 1)})`
+      : formatDistance(km * 1000, units, 1);
+
+  const startSearch = (
+    <div className="relative">
+      <form onSubmit={searchPlaces} className="flex gap-2">
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search a start address or place"
+          aria-label="Search for a start point"
+          className="min-w-0 flex-1 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
+        />
+        <button
+          type="submit"
+          disabled={searching || !searchQuery.trim()}
+          className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {searching ? "Searching..." : "Search"}
+        </button>
+      </form>
+      {searchError && <p className="mt-1 text-xs text-rose-600">{searchError}</p>}
+      {searchResults.length > 0 && (
+        <ul className="absolute inset-x-0 top-full z-10 mt-1 overflow-hidden rounded-xl border border-slate-200 bg-white shadow-lg">
+          {searchResults.map((result) => (
+            <li key={result.id}>
+              <button
+                onClick={() => selectSearchResult(result)}
+                className="w-full px-3 py-2 text-left text-sm transition hover:bg-slate-50"
+              >
+                <span className="font-medium text-slate-900">{result.name}</span>
+                {result.place_name && (
+                  <span className="block text-xs text-slate-500">{result.place_name}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  const exportFormatSelect = (
+    <select
+      value={exportFormat}
+      onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+      aria-label="Export format"
+      className="rounded-xl border border-sky-300 bg-white px-2 text-sm font-medium text-sky-800 outline-none focus:ring-2 focus:ring-sky-200"
+    >
+      {EXPORT_FORMATS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  const activityPicker = (
+    <div className="space-y-1">
+      <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+        Activity
+      </span>
+      <div className="flex gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm">
+        {ACTIVITY_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => selectActivity(option.value)}
+            aria-pressed={activity === option.value}
+            className={`flex-1 rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+              activity === option.value
+                ? "bg-slate-900 text-white"
+                : "text-slate-600 hover:bg-slate-100"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const modePicker = (
+    <div className="space-y-1">
+      <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+        Route type
+      </span>
+      <div className="flex gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm">
+        {MODE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => changeMode(option.value)}
+            aria-pressed={mode === option.value}
+            className={`flex-1 rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+              mode === option.value
+                ? "bg-slate-900 text-white"
+                : "text-slate-600 hover:bg-slate-100"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {mode === "point-to-point" && (
+        <p className="text-xs text-slate-500">Drag the red pin to set your finish.</p>
+      )}
+    </div>
+  );
+
+  const pinControls = (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+          Must-visit stops {pins.length > 0 && `(${pins.length})`}
+        </span>
+        <div className="flex gap-1">
+          {pins.length > 0 && (
+            <button
+              onClick={() => setPins([])}
+              className="rounded-lg px-2 py-1 text-xs font-medium text-slate-500 transition hover:bg-slate-100"
+            >
+              Clear
+            </button>
+          )}
+          <button
+            onClick={() => toggleClickMode("pin")}
+            aria-pressed={clickMode === "pin"}
+            className={`rounded-lg px-2.5 py-1 text-xs font-medium transition ${
+              clickMode === "pin"
+                ? "bg-emerald-600 text-white"
+                : "border border-slate-300 bg-white text-slate-700 hover:bg-slate-50"
+            }`}
+          >
+            {clickMode === "pin" ? "Done adding" : "Add stops"}
+          </button>
+        </div>
+      </div>
+      {clickMode === "pin" && (
+        <p className="text-xs text-slate-500">
+          Click the map to drop up to {MAX_PINS} green pins. Drag a pin to move it.
+        </p>
+      )}
+      {pins.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5">
+          {pins.map((pin, idx) => (
+            <li key={`${pin.lng},${pin.lat}`}>
+              <button
+                onClick={() => setPins((prev) => prev.filter((_, i) => i !== idx))}
+                aria-label={`Remove stop ${idx + 1}`}
+                className="rounded-full border border-emerald-200 bg-emerald-50/85 px-2.5 py-0.5 text-xs text-emerald-700 transition hover:bg-emerald-100"
+              >
+                Stop {idx + 1} ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  const avoidZoneControls = (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+          Avoid zones {avoidZones.length > 0 && `(${avoidZones.length})`}
+        </span>
+        <div className="flex gap-1">
+          {avoidZones.length > 0 && clickMode !== "avoid" && (
+            <button
+              onClick={() => saveAvoidZones([])}
+              className="rounded-lg px-2 py-1 text-xs font-medium text-slate-500 transition hover:bg-slate-100"
+            >
+              Clear
+            </button>
+          )}
+          {clickMode === "avoid" && (
+            <button
+              onClick={finishAvoidZone}
+              disabled={draftZone.length < 3}
+              className="rounded-lg bg-rose-600 px-2.5 py-1 text-xs font-medium text-white transition hover:bg-rose-700 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Finish zone
+            </button>
+          )}
+          <button
+            onClick={() => toggleClickMode("avoid")}
+            aria-pressed={clickMode === "avoid"}
+            className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-medium text-slate-700 transition hover:bg-slate-50"
+          >
+            {clickMode === "avoid" ? "Cancel" : "Draw zone"}
+          </button>
+        </div>
+      </div>
+      {clickMode === "avoid" && (
+        <p className="text-xs text-slate-500">
+          Click the map to outline an area to stay out of, then finish the zone.
+        </p>
+      )}
+      {avoidZones.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5">
+          {avoidZones.map((zone, idx) => (
+            <li key={zone.map((point) => point.join(",")).join(";")}>
+              <button
+                onClick={() => saveAvoidZones(avoidZones.filter((_, i) => i !== idx))}
+                aria-label={`Remove avoid zone ${idx + 1}`}
+                className="rounded-full border border-rose-200 bg-rose-50/85 px-2.5 py-0.5 text-xs text-rose-700 transition hover:bg-rose-100"
+              >
+                Zone {idx + 1} ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  const targetInput = (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+          {targetType === "duration" ? "Time (min)" : `Distance (${distanceUnit(units)})`}
+        </span>
+        <div className="flex gap-0.5 rounded-lg border border-slate-200 bg-white p-0.5 text-[11px]">
+          {(["distance", "duration"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setTargetType(option)}
+              aria-pressed={targetType === option}
+              className={`rounded-md px-1.5 py-0.5 font-medium transition ${
+                targetType === option
+                  ? "bg-slate-900 text-white"
+                  : "text-slate-600 hover:bg-slate-100"
+              }`}
+            >
+              {option === "duration" ? "min" : distanceUnit(units)}
+            </button>
+          ))}
+        </div>
+      </div>
+      {targetType === "duration" ? (
+        <input
+          type="number"
+          min={5}
+          step={5}
+          value={minutesInput}
+          onChange={(e) => {
+            const value = e.target.value;
+            setMinutesInput(value);
+            const num = parseFloat(value);
+            if (Number.isFinite(num)) {
+              setMinutes(num);
+            }
+          }}
+          aria-label="Target time in minutes"
+          className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
+          placeholder="e.g. 45"
+        />
+      ) : (
+        <input
+          type="number"
+          min={0.5}
+          step={0.5}
+          value={kmInput}
+          onChange={(e) => {
+            const value = e.target.value;
+            setKmInput(value);
+            const num = parseFloat(value);
+            if (Number.isFinite(num)) {
+              setKm(fromDistanceUnits(num, units) / 1000);
+            }
+          }}
+          aria-label={`Target distance in ${distanceUnit(units)}`}
+          className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
+          placeholder="e.g. 5"
+        />
+      )}
+    </div>
+  );
+
+  const pacePicker = (
+    <div className="space-y-1">
+      <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+        Pace
+      </span>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-1 gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm">
+          {PACE_PROFILES.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => selectPaceProfile(option.value)}
+              aria-pressed={paceProfiles.selected === option.value}
+              className={`flex-1 whitespace-nowrap rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+                paceProfiles.selected === option.value
+                  ? "bg-slate-900 text-white"
+                  : "text-slate-600 hover:bg-slate-100"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-sm text-slate-500">
+          <input
+            value={paceInput}
+            onChange={(e) => changePaceInput(e.target.value)}
+            aria-label={`Pace per ${distanceUnit(units)} for this profile`}
+            aria-invalid={parsePace(paceInput, units, paceModel) === null}
+            className={`w-16 rounded-xl border bg-white px-2 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:ring-2 focus:ring-sky-200 ${
+              parsePace(paceInput, units, paceModel) === null ? "border-rose-300" : "border-slate-200"
+            }`}
+          />
+          /{distanceUnit(units)}
+        </label>
+      </div>
+    </div>
+  );
+
+  const preferencesPicker = (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+          Route style
+        </span>
+        <button
+          onClick={() => setShowPreferenceSliders((prev) => !prev)}
+          aria-expanded={showPreferenceSliders}
+          className="text-xs font-medium text-sky-700 hover:text-sky-900"
+        >
+          {showPreferenceSliders ? "Hide tuning" : "Tune"}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm">
+        {PRESET_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => selectPreferencePreset(option.value)}
+            aria-pressed={preferences.preset === option.value}
+            className={`flex-1 whitespace-nowrap rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+              preferences.preset === option.value
+                ? "bg-slate-900 text-white"
+                : "text-slate-600 hover:bg-slate-100"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {showPreferenceSliders && (
+        <div className="grid gap-x-4 gap-y-1 rounded-xl border border-slate-200 bg-white px-3 py-2 shadow-sm sm:grid-cols-2">
+          {PREFERENCE_KEYS.map((key) => (
+            <label key={key} className="flex items-center gap-2 text-xs text-slate-600">
+              <span className="w-32 shrink-0">{PREFERENCE_LABELS[key]}</span>
+              <input
+                type="range"
+                min={MIN_PREFERENCE_WEIGHT}
+                max={MAX_PREFERENCE_WEIGHT}
+                step={0.1}
+                value={preferences.weights[key]}
+                onChange={(e) => changePreferenceWeight(key, Number(e.target.value))}
+                className="min-w-0 flex-1 accent-sky-600"
+              />
+              <span className="w-7 text-right tabular-nums">
+                {preferences.weights[key].toFixed(1)}
+              </span>
+            </label>
+          ))}
+          {preferences.preset === "custom" && (
+            <div className="text-[11px] text-slate-500 sm:col-span-2">
+              Custom weights. Pick a style above to reset.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const hillPicker = (
+    <div className="space-y-1">
+      <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+        Terrain
+      </span>
+      <div className="flex gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm">
+        {HILL_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setHills(option.value)}
+            aria-pressed={hills === option.value}
+            className={`flex-1 rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+              hills === option.value
+                ? "bg-slate-900 text-white"
+                : "text-slate-600 hover:bg-slate-100"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const surfacePicker = (
+    <div className="space-y-1">
+      <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+        Surface
+      </span>
+      <div className="flex gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm">
+        {SURFACE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setSurface(option.value)}
+            aria-pressed={surface === option.value}
+            className={`flex-1 rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+              surface === option.value
+                ? "bg-slate-900 text-white"
+                : "text-slate-600 hover:bg-slate-100"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 pt-1 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={accessible}
+          onChange={(e) => changeAccessible(e.target.checked)}
+          className="h-4 w-4 accent-slate-900"
+        />
+        Stroller &amp; wheelchair friendly (no stairs, rough ground or steep ramps)
+      </label>
+    </div>
+  );
 
   return (
-    <div className="relative h-screen w-full overflow-hidden text-slate-900">
+    <div
+      className="relative h-screen w-full overflow-hidden text-slate-900"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setDragActive(true);
+      }}
+      onDragLeave={(e) => {
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        setDragActive(false);
+      }}
+      onDrop={handleImportDrop}
+    >
       <div ref={mapContainerRef} className="h-full w-full" />
 
+      {dragActive && (
+        <div className="pointer-events-none absolute inset-3 z-40 flex items-center justify-center rounded-3xl border-2 border-dashed border-sky-400 bg-sky-50/70 text-sm font-medium text-sky-800">
+          Drop a GPX, TCX or GeoJSON route to score it
+        </div>
+      )}
+
       <div className="pointer-events-none absolute inset-x-0 top-0 p-3 sm:p-5">
         <div className="glass-panel pointer-events-auto mx-auto w-full max-w-4xl rounded-3xl p-4 sm:p-5">
           <div className="flex flex-wrap items-start justify-between gap-3">
@@ -585,6 +2576,46 @@ map.addLayer(
             </div>
 
             <div className="flex flex-wrap gap-2 text-xs">
+              <div className="flex rounded-full border border-slate-300 bg-white p-0.5">
+                {(["metric", "imperial"] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => changeUnits(option)}
+                    aria-pressed={units === option}
+                    className={`rounded-full px-2.5 py-0.5 font-medium transition ${
+                      units === option
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-700 hover:bg-slate-50"
+                    }`}
+                  >
+                    {distanceUnit(option)}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={openLibrary}
+                className="rounded-full border border-slate-300 bg-white px-3 py-1 font-medium text-slate-700 transition hover:bg-slate-50"
+              >
+                Library
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={importing}
+                className="rounded-full border border-slate-300 bg-white px-3 py-1 font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {importing ? "Importing..." : "Import"}
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".gpx,.tcx,.geojson,.json,application/gpx+xml,application/geo+json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) void importRouteFile(file);
+                }}
+                className="hidden"
+              />
               <span className="rounded-full border border-slate-200 bg-white/85 px-3 py-1 text-slate-600">
                 Target {targetLabel}
               </span>
@@ -609,49 +2640,131 @@ map.addLayer(
                   {selectedQuality.turn_count} turns
                 </span>
                 <span className="rounded-full border border-slate-200 bg-white/85 px-3 py-1 text-slate-600">
-                  {selectedQuality.distance_diff_km.toFixed(2)} km off target
+                  {formatDistance(selectedQuality.distance_diff_km * 1000, units)} off target
                 </span>
+                {selectedQuality.ascent_m !== null && (
+                  <span className="rounded-full border border-slate-200 bg-white/85 px-3 py-1 text-slate-600">
+                    ↑ {formatElevation(selectedQuality.ascent_m, units)}
+                    {selectedQuality.max_grade_pct !== null &&
+                      ` • max ${selectedQuality.max_grade_pct.toFixed(0)}% grade`}
+                  </span>
+                )}
                 {selectedQuality.path_ratio >= 0.2 && (
                   <span className="rounded-full border border-emerald-200 bg-emerald-50/85 px-3 py-1 text-emerald-700">
                     {(selectedQuality.path_ratio * 100).toFixed(0)}% paths/trails
                   </span>
                 )}
+                {(selectedQuality.stop_time_s ?? 0) > 0 && (
+                  <span className="rounded-full border border-slate-200 bg-white/85 px-3 py-1 text-slate-600">
+                    {selectedQuality.major_crossings ?? 0} major crossings • ~
+                    {formatClock(selectedQuality.stop_time_s ?? 0)} stopped
+                  </span>
+                )}
+                {(selectedQuality.stairs ?? 0) > 0 && (
+                  <span className="rounded-full border border-rose-200 bg-rose-50/85 px-3 py-1 text-rose-700">
+                    {selectedQuality.stairs} {selectedQuality.stairs === 1 ? "set" : "sets"} of stairs
+                  </span>
+                )}
+                {unpavedRatio >= 0.1 && (
+                  <span className="rounded-full border border-amber-200 bg-amber-50/85 px-3 py-1 text-amber-700">
+                    {(unpavedRatio * 100).toFixed(0)}% unpaved
+                  </span>
+                )}
                 {selectedQuality.scenic_ratio >= 0.12 && (
                   <span className="rounded-full border border-sky-200 bg-sky-50/85 px-3 py-1 text-sky-700">
                     Scenic segments favored
                   </span>
                 )}
               </div>
+
+              {(routes.length > 1 || route.imported_name) && (
+                <div className="grid gap-2 sm:grid-cols-3">
+                  {routes.map((option, idx) => {
+                    const isSelected = option.id === route.id;
+                    const warnings = describeRouteWarnings(option, units);
+                    return (
+                      <button
+                        key={option.id}
+                        onClick={() => selectRoute(option.id)}
+                        aria-pressed={isSelected}
+                        className={`rounded-2xl border px-3 py-2 text-left transition ${
+                          isSelected
+                            ? "border-sky-400 bg-white shadow-sm ring-2 ring-sky-200"
+                            : "border-slate-200 bg-white/70 hover:bg-white"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="truncate text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                            {option.imported_name ? `Imported: ${option.imported_name}` : `Option ${idx + 1}`}
+                          </span>
+                          <span
+                            className={`rounded-full border px-2 py-0.5 text-[11px] font-medium ${CONFIDENCE_BADGE_CLASSES[option.quality.confidence]}`}
+                          >
+                            {option.quality.confidence}
+                          </span>
+                        </div>
+                        <div className="mt-1 text-sm font-medium text-slate-900">
+                          {formatDistance(option.distance_m, units)}
+                          {option.quality.ascent_m !== null && (
+                            <span className="font-normal text-slate-500">
+                              {" "}
+                              • ↑ {formatElevation(option.quality.ascent_m, units)}
+                            </span>
+                          )}
+                        </div>
+                        <div className="mt-0.5 text-xs text-slate-600">
+                          {option.quality.highlight}
+                        </div>
+                        {warnings.length > 0 && (
+                          <ul className="mt-1 space-y-0.5 text-[11px] text-amber-700">
+                            {warnings.map((warning) => (
+                              <li key={warning}>{warning}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                <button
+                  onClick={openSaveForm}
+                  className="rounded-lg border border-emerald-300 bg-emerald-50 px-2.5 py-1 font-medium text-emerald-800 transition hover:bg-emerald-100"
+                >
+                  Save route
+                </button>
+                {seed !== null && (
+                  <>
+                    <span>Seed {seed}</span>
+                    <button
+                      onClick={() => generateRoute({ seed })}
+                      disabled={loading}
+                      className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Same seed
+                    </button>
+                    <button
+                      onClick={() => generateRoute()}
+                      disabled={loading}
+                      className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      New seed
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
           )}
 
           <div className="mt-4 hidden gap-3 sm:grid sm:grid-cols-[minmax(170px,220px)_1fr]">
-            <label className="space-y-1">
-              <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
-                Distance (km)
-              </span>
-              <input
-                type="number"
-                min={0.5}
-                step={0.5}
-                value={kmInput}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  setKmInput(value);
-                  const num = parseFloat(value);
-                  if (Number.isFinite(num)) {
-                    setKm(num);
-                  }
-                }}
-                className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
-                placeholder="e.g. 5"
-              />
-            </label>
+            {targetInput}
 
-            <div className="grid gap-2 sm:grid-cols-3">
+            <div className="grid gap-2 sm:grid-cols-5">
               <button
-                onClick={generateRoute}
-                disabled={loading || !isKmValid}
+                onClick={() => generateRoute()}
+                disabled={loading || !isTargetValid}
                 className="rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-medium text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
               >
                 {loading ? "Generating..." : route ? "Regenerate" : "Generate route"}
@@ -666,46 +2779,106 @@ map.addLayer(
               </button>
 
               <button
-                onClick={handleExportGpx}
+                onClick={startNavigation}
+                disabled={!route || navigation !== null}
+                className="rounded-xl border border-emerald-300 bg-emerald-50 px-4 py-2.5 text-sm font-medium text-emerald-800 transition hover:bg-emerald-100 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Start run
+              </button>
+
+              <div className="flex gap-1">
+                <button
+                  onClick={handleExport}
+                  disabled={!route}
+                  className="flex-1 rounded-xl border border-sky-300 bg-sky-50 px-4 py-2.5 text-sm font-medium text-sky-800 transition hover:bg-sky-100 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Export {exportLabel}
+                </button>
+                {exportFormatSelect}
+              </div>
+
+              <button
+                onClick={handleCopyLink}
                 disabled={!route}
-                className="rounded-xl border border-sky-300 bg-sky-50 px-4 py-2.5 text-sm font-medium text-sky-800 transition hover:bg-sky-100 disabled:cursor-not-allowed disabled:opacity-40"
+                className="rounded-xl border border-slate-300 bg-white px-4 py-2.5 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-40"
               >
-                Export GPX
+                Copy link
               </button>
             </div>
           </div>
 
+          <div className="mt-3 hidden sm:block">{startSearch}</div>
+
+          <div className="mt-3 hidden sm:block">{activityPicker}</div>
+
+          <div className="mt-3 hidden gap-3 sm:grid sm:grid-cols-2">
+            {modePicker}
+            {hillPicker}
+          </div>
+
+          <div className="mt-3 hidden sm:block">{surfacePicker}</div>
+
+          <div className="mt-3 hidden sm:block">{pacePicker}</div>
+
+          <div className="mt-3 hidden sm:block">{preferencesPicker}</div>
+
+          <div className="mt-3 hidden gap-3 sm:grid sm:grid-cols-2">
+            {pinControls}
+            {avoidZoneControls}
+          </div>
+
           <div className="mt-3 text-xs text-slate-500">
-            Start: {center.lat.toFixed(5)}, {center.lng.toFixed(5)}
+            Start: {center.lat.toFixed(5)}, {center.lng.toFixed(5)} (drag the pin or click
+            the map to move it)
+            {mode === "point-to-point" && finish && (
+              <> • Finish: {finish.lat.toFixed(5)}, {finish.lng.toFixed(5)}</>
+            )}
           </div>
         </div>
       </div>
 
-      <div className="pointer-events-none fixed inset-x-0 bottom-5 z-40 px-4 sm:hidden">
+      {navigation && (
+        <NavigationPanel
+          navigation={navigation}
+          units={units}
+          audio={audioSettings}
+          onAudioChange={changeAudioSettings}
+          rejoinMeters={rejoin?.distance_m ?? null}
+          rerouting={rerouting}
+          simulating={simulating}
+          onReroute={rerouteToRoute}
+          onSimulate={simulateNavigation}
+          onStop={stopNavigation}
+        />
+      )}
+
+      <div
+        className={`pointer-events-none fixed inset-x-0 bottom-5 z-40 px-4 sm:hidden ${
+          navigation ? "hidden" : ""
+        }`}
+      >
         <div className="mx-auto flex w-full max-w-sm flex-col gap-2">
           {showMobileRouteForm && (
             <div className="glass-panel pointer-events-auto space-y-3 rounded-2xl p-3">
-              <label className="space-y-1">
-                <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
-                  Distance (km)
-                </span>
-                <input
-                  type="number"
-                  min={0.5}
-                  step={0.5}
-                  value={kmInput}
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    setKmInput(value);
-                    const num = parseFloat(value);
-                    if (Number.isFinite(num)) {
-                      setKm(num);
-                    }
-                  }}
-                  className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
-                  placeholder="e.g. 5"
-                />
-              </label>
+              {startSearch}
+
+              {targetInput}
+
+              {activityPicker}
+
+              {modePicker}
+
+              {hillPicker}
+
+              {surfacePicker}
+
+              {pacePicker}
+
+              {preferencesPicker}
+
+              {pinControls}
+
+              {avoidZoneControls}
 
               <div className="flex gap-2">
                 <button
@@ -715,8 +2888,8 @@ map.addLayer(
                   Cancel
                 </button>
                 <button
-                  onClick={generateRoute}
-                  disabled={loading || !isKmValid}
+                  onClick={() => generateRoute()}
+                  disabled={loading || !isTargetValid}
                   className="flex-1 rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-medium text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
                 >
                   {loading ? "Generating..." : "Generate route"}
@@ -742,10 +2915,23 @@ map.addLayer(
                   Directions
                 </button>
                 <button
-                  onClick={handleExportGpx}
+                  onClick={startNavigation}
+                  className="rounded-full border border-emerald-300 bg-emerald-50 px-4 py-2.5 text-sm font-medium text-emerald-800 transition hover:bg-emerald-100"
+                >
+                  Run
+                </button>
+                <button
+                  onClick={handleExport}
                   className="rounded-full border border-sky-300 bg-sky-50 px-4 py-2.5 text-sm font-medium text-sky-800 transition hover:bg-sky-100"
                 >
-                  Export GPX
+                  Export {exportLabel}
+                </button>
+                {exportFormatSelect}
+                <button
+                  onClick={handleCopyLink}
+                  className="rounded-full border border-slate-300 bg-white px-4 py-2.5 text-sm font-medium text-slate-700 transition hover:bg-slate-50"
+                >
+                  Copy link
                 </button>
               </>
             )}
@@ -761,6 +2947,78 @@ map.addLayer(
         </div>
       )}
 
+      {showLibrary && (
+        <RouteLibrary
+          entries={libraryEntries}
+          loading={libraryLoading}
+          error={libraryError}
+          units={units}
+          onClose={() => setShowLibrary(false)}
+          onLoad={loadLibraryEntry}
+          onRename={renameLibraryEntry}
+          onDelete={deleteLibraryRoutes}
+          onExport={exportLibraryRoutes}
+        />
+      )}
+
+      {route && showSaveForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/45 p-4">
+          <form
+            onSubmit={handleSaveRoute}
+            className="glass-panel w-full max-w-sm space-y-3 rounded-3xl p-5"
+          >
+            <h2 className="text-sm font-semibold text-slate-900">Save route</h2>
+            <label className="block space-y-1">
+              <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+                Name
+              </span>
+              <input
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+                Tags
+              </span>
+              <input
+                value={saveTags}
+                onChange={(e) => setSaveTags(e.target.value)}
+                placeholder="e.g. club, tuesday, hills"
+                className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs font-medium uppercase tracking-[0.14em] text-slate-500">
+                Notes
+              </span>
+              <textarea
+                value={saveNotes}
+                onChange={(e) => setSaveNotes(e.target.value)}
+                rows={3}
+                className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
+              />
+            </label>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowSaveForm(false)}
+                className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-medium text-white transition hover:bg-slate-800"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
       {/* Directions Modal */}
       {route && showDirections && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/45 p-4">
@@ -778,15 +3036,15 @@ map.addLayer(
             </div>
 
             <div className="border-b border-slate-200/70 px-5 py-3 text-xs text-slate-600">
-              Target: {km.toFixed(1)} km
+              Target: {targetLabel}
               {distanceLabel && <> • Route: {distanceLabel}</>}
             </div>
 
             <div className="overflow-y-auto px-5 py-4 text-sm">
               <ol className="space-y-2">
                 {route.steps?.map((s, idx) => {
-                  const meters = Math.round(s.distance_m);
                   const mins = Math.max(1, Math.round(s.duration_s / 60));
+                  const crossings = describeStepCrossings(s);
                   return (
                     <li
                       key={idx}
@@ -799,7 +3057,12 @@ map.addLayer(
                         {s.instruction || "Continue"}
                       </div>
                       <div className="mt-1 text-xs text-slate-600">
-                        {meters} m • ~{mins} min
+                        {formatStepDistance(s.distance_m, units)} • ~{mins} min
+                        {crossings && (
+                          <span className="ml-2 rounded-full bg-amber-50 px-2 py-0.5 font-medium text-amber-700">
+                            {crossings}
+                          </span>
+                        )}
                       </div>
                     </li>
                   );
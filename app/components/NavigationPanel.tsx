@@ -0,0 +1,161 @@
+"use client";
+
+import { useRef } from "react";
+import { TURN_LEAD_PRESETS, type TurnLeadPreset } from "@/lib/navigation/audio-cues";
+import type { NavigationState } from "@/lib/navigation/tracker";
+import {
+  formatDistance,
+  formatStepDistance,
+  type UnitSystem,
+} from "@/lib/units/format";
+
+type AudioSettings = { muted: boolean; volume: number; turnLeads: TurnLeadPreset };
+
+type NavigationPanelProps = {
+  navigation: NavigationState;
+  units: UnitSystem;
+  audio: AudioSettings;
+  onAudioChange: (next: AudioSettings) => void;
+  // Length of the suggested way back, once a reroute has been fetched.
+  rejoinMeters: number | null;
+  rerouting: boolean;
+  simulating: boolean;
+  onReroute: () => void;
+  onSimulate: (file: File) => void;
+  onStop: () => void;
+};
+
+const TURN_LEAD_LABELS: Record<TurnLeadPreset, string> = {
+  early: "Early turn warnings",
+  standard: "Standard turn warnings",
+  late: "Late turn warnings",
+};
+
+export default function NavigationPanel({
+  navigation,
+  units,
+  audio,
+  onAudioChange,
+  rejoinMeters,
+  rerouting,
+  simulating,
+  onReroute,
+  onSimulate,
+  onStop,
+}: NavigationPanelProps) {
+  const simulateInputRef = useRef<HTMLInputElement | null>(null);
+  const progressPct =
+    navigation.total_m > 0 ? (navigation.progress_m / navigation.total_m) * 100 : 0;
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 bottom-5 z-50 px-4">
+      <div className="glass-panel pointer-events-auto mx-auto w-full max-w-md space-y-3 rounded-3xl p-4">
+        {navigation.finished ? (
+          <div className="text-lg font-semibold text-slate-900">Route complete. Nice run!</div>
+        ) : !navigation.position ? (
+          <div className="text-sm text-slate-600">Waiting for GPS...</div>
+        ) : (
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-400">
+              {navigation.distance_to_cue_m !== null
+                ? `In ${formatStepDistance(navigation.distance_to_cue_m, units)}`
+                : "Next"}
+            </div>
+            <div className="mt-1 text-lg font-semibold text-slate-900">
+              {navigation.next_cue?.instruction ?? "Continue to the finish."}
+            </div>
+          </div>
+        )}
+
+        {navigation.off_route && !navigation.finished && (
+          <div className="flex items-center justify-between gap-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            <span>
+              {rejoinMeters !== null
+                ? `Off route. Follow the dashed line back (${formatStepDistance(rejoinMeters, units)}).`
+                : "You're off the route."}
+            </span>
+            <button
+              onClick={onReroute}
+              disabled={rerouting}
+              className="shrink-0 rounded-lg border border-rose-300 bg-white px-2.5 py-1 text-xs font-medium text-rose-700 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {rerouting ? "Routing..." : "Reroute back"}
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <div className="h-1.5 overflow-hidden rounded-full bg-slate-200">
+            <div
+              className="h-full rounded-full bg-sky-500 transition-[width]"
+              style={{ width: `${Math.min(100, progressPct)}%` }}
+            />
+          </div>
+          <div className="text-xs text-slate-600">
+            {formatDistance(navigation.progress_m, units)} of {formatDistance(navigation.total_m, units)}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => onAudioChange({ ...audio, muted: !audio.muted })}
+            aria-pressed={audio.muted}
+            className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-medium text-slate-700 transition hover:bg-slate-50"
+          >
+            {audio.muted ? "Unmute" : "Mute"}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={audio.volume}
+            disabled={audio.muted}
+            onChange={(e) => onAudioChange({ ...audio, volume: Number(e.target.value) })}
+            aria-label="Voice volume"
+            className="min-w-0 flex-1 accent-sky-600 disabled:opacity-40"
+          />
+          <select
+            value={audio.turnLeads}
+            onChange={(e) => onAudioChange({ ...audio, turnLeads: e.target.value as TurnLeadPreset })}
+            aria-label="When to announce turns"
+            className="rounded-lg border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700"
+          >
+            {(Object.keys(TURN_LEAD_PRESETS) as TurnLeadPreset[]).map((preset) => (
+              <option key={preset} value={preset}>
+                {TURN_LEAD_LABELS[preset]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => simulateInputRef.current?.click()}
+            disabled={simulating}
+            className="flex-1 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {simulating ? "Simulating..." : "Simulate from GPX"}
+          </button>
+          <input
+            ref={simulateInputRef}
+            type="file"
+            accept=".gpx,.tcx,.geojson,.json,application/gpx+xml,application/geo+json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) onSimulate(file);
+            }}
+            className="hidden"
+          />
+          <button
+            onClick={onStop}
+            className="flex-1 rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white transition hover:bg-slate-800"
+          >
+            End run
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
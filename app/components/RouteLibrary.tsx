@@ -0,0 +1,331 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { LibraryEntry, LibraryEntryKind } from "@/lib/library/store";
+import { formatDistance, type UnitSystem } from "@/lib/units/format";
+
+type Confidence = "strong" | "solid" | "mixed";
+
+type LibraryRoute = {
+  geojson: GeoJSON.Feature<GeoJSON.LineString>;
+  distance_m: number;
+  quality: { confidence: Confidence };
+};
+
+type RouteLibraryProps<T extends LibraryRoute> = {
+  entries: LibraryEntry<T>[];
+  loading: boolean;
+  error: string | null;
+  units: UnitSystem;
+  onClose: () => void;
+  onLoad: (entry: LibraryEntry<T>) => void;
+  onRename: (entry: LibraryEntry<T>, name: string) => void;
+  onDelete: (ids: string[]) => void;
+  onExport: (entries: LibraryEntry<T>[]) => void;
+};
+
+const TABS: Array<{ value: LibraryEntryKind; label: string }> = [
+  { value: "saved", label: "Saved" },
+  { value: "history", label: "Recent" },
+];
+
+const CONFIDENCE_BADGE_CLASSES: Record<Confidence, string> = {
+  strong: "border-emerald-200 bg-emerald-50/85 text-emerald-700",
+  solid: "border-sky-200 bg-sky-50/85 text-sky-700",
+  mixed: "border-amber-200 bg-amber-50/85 text-amber-700",
+};
+
+const PREVIEW_SIZE = 56;
+const PREVIEW_MAX_POINTS = 80;
+
+// Squeezes the line into a small square, keeping its aspect ratio.
+function buildPreviewPath(coordinates: number[][]) {
+  if (coordinates.length < 2) return "";
+
+  const stride = Math.max(1, Math.ceil(coordinates.length / PREVIEW_MAX_POINTS));
+  const sampled = coordinates.filter(
+    (_, idx) => idx % stride === 0 || idx === coordinates.length - 1
+  );
+  const cosLat = Math.cos((sampled[0][1] * Math.PI) / 180);
+  const xs = sampled.map(([lng]) => lng * cosLat);
+  const ys = sampled.map(([, lat]) => lat);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+  const padding = 4;
+  const scale = (PREVIEW_SIZE - padding * 2) / span;
+  const offsetX = (PREVIEW_SIZE - (Math.max(...xs) - minX) * scale) / 2;
+  const offsetY = (PREVIEW_SIZE - (Math.max(...ys) - minY) * scale) / 2;
+
+  return sampled
+    .map((_, idx) => {
+      const x = offsetX + (xs[idx] - minX) * scale;
+      // SVG y grows downwards, latitude grows upwards.
+      const y = PREVIEW_SIZE - (offsetY + (ys[idx] - minY) * scale);
+      return `${idx === 0 ? "M" : "L"}${x.toFixed(1)} ${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+function RoutePreview({ geojson }: { geojson: GeoJSON.Feature<GeoJSON.LineString> }) {
+  const path = useMemo(
+    () => buildPreviewPath(geojson.geometry.coordinates),
+    [geojson]
+  );
+
+  return (
+    <svg
+      width={PREVIEW_SIZE}
+      height={PREVIEW_SIZE}
+      viewBox={`0 0 ${PREVIEW_SIZE} ${PREVIEW_SIZE}`}
+      className="shrink-0 rounded-xl border border-slate-200 bg-slate-50"
+      aria-hidden="true"
+    >
+      <path
+        d={path}
+        fill="none"
+        stroke="#0ea5e9"
+        strokeWidth={2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
+
+export default function RouteLibrary<T extends LibraryRoute>({
+  entries,
+  loading,
+  error,
+  units,
+  onClose,
+  onLoad,
+  onRename,
+  onDelete,
+  onExport,
+}: RouteLibraryProps<T>) {
+  const [tab, setTab] = useState<LibraryEntryKind>("saved");
+  const [filter, setFilter] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const visibleEntries = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return entries.filter((entry) => {
+      if (entry.kind !== tab) return false;
+      if (!query) return true;
+      return (
+        entry.name.toLowerCase().includes(query) ||
+        entry.notes.toLowerCase().includes(query) ||
+        entry.tags.some((tag) => tag.toLowerCase().includes(query))
+      );
+    });
+  }, [entries, tab, filter]);
+
+  const selectedEntries = visibleEntries.filter((entry) => selectedIds.includes(entry.id));
+
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]
+    );
+  }
+
+  function changeTab(nextTab: LibraryEntryKind) {
+    setTab(nextTab);
+    setSelectedIds([]);
+    setRenamingId(null);
+  }
+
+  function submitRename(entry: LibraryEntry<T>) {
+    const name = renameValue.trim();
+    if (name && name !== entry.name) onRename(entry, name);
+    setRenamingId(null);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/45 p-4">
+      <div className="glass-panel flex max-h-[85vh] w-full max-w-xl flex-col rounded-3xl">
+        <div className="flex items-center justify-between border-b border-slate-200/70 px-5 py-4">
+          <h2 className="text-sm font-semibold text-slate-900">Route library</h2>
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-medium text-slate-700 transition hover:bg-slate-50"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="space-y-2 border-b border-slate-200/70 px-5 py-3">
+          <div className="flex gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm">
+            {TABS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => changeTab(option.value)}
+                aria-pressed={tab === option.value}
+                className={`flex-1 rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+                  tab === option.value
+                    ? "bg-slate-900 text-white"
+                    : "text-slate-600 hover:bg-slate-100"
+                }`}
+              >
+                {option.label} ({entries.filter((entry) => entry.kind === option.value).length})
+              </button>
+            ))}
+          </div>
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by name, tag or notes"
+            aria-label="Filter routes"
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none transition focus:border-sky-400 focus:ring-2 focus:ring-sky-200"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 text-sm">
+          {error && (
+            <div className="mb-3 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-rose-700">
+              {error}
+            </div>
+          )}
+          {loading && <p className="text-xs text-slate-500">Loading routes...</p>}
+          {!loading && visibleEntries.length === 0 && (
+            <p className="text-xs text-slate-500">
+              {tab === "saved"
+                ? "No saved routes yet. Use Save on a route you like."
+                : "Routes you generate show up here."}
+            </p>
+          )}
+
+          <ul className="space-y-2">
+            {visibleEntries.map((entry) => (
+              <li
+                key={entry.id}
+                className="flex gap-3 rounded-xl border border-slate-200/80 bg-white/80 px-3 py-2"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(entry.id)}
+                  onChange={() => toggleSelected(entry.id)}
+                  aria-label={`Select ${entry.name}`}
+                  className="mt-1"
+                />
+                <RoutePreview geojson={entry.route.geojson} />
+                <div className="min-w-0 flex-1">
+                  {renamingId === entry.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        submitRename(entry);
+                      }}
+                      className="flex gap-1"
+                    >
+                      <input
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        aria-label="Route name"
+                        autoFocus
+                        className="min-w-0 flex-1 rounded-lg border border-slate-200 bg-white px-2 py-1 text-sm"
+                      />
+                      <button
+                        type="submit"
+                        className="rounded-lg bg-slate-900 px-2 py-1 text-xs font-medium text-white"
+                      >
+                        Save
+                      </button>
+                    </form>
+                  ) : (
+                    <div className="truncate font-medium text-slate-900">{entry.name}</div>
+                  )}
+                  <div className="mt-0.5 flex flex-wrap items-center gap-1.5 text-xs text-slate-600">
+                    <span>{formatDistance(entry.route.distance_m, units)}</span>
+                    <span
+                      className={`rounded-full border px-2 py-0.5 text-[11px] font-medium ${CONFIDENCE_BADGE_CLASSES[entry.route.quality.confidence]}`}
+                    >
+                      {entry.route.quality.confidence}
+                    </span>
+                    <span className="text-slate-400">
+                      {new Date(entry.created_at).toLocaleDateString()}
+                    </span>
+                    {entry.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5 text-[11px] text-slate-600"
+                      >
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                  {entry.notes && (
+                    <p className="mt-0.5 line-clamp-2 text-xs text-slate-500">{entry.notes}</p>
+                  )}
+                  <div className="mt-1.5 flex gap-1">
+                    <button
+                      onClick={() => onLoad(entry)}
+                      className="rounded-lg bg-slate-900 px-2.5 py-1 text-xs font-medium text-white transition hover:bg-slate-800"
+                    >
+                      Load
+                    </button>
+                    <button
+                      onClick={() => {
+                        setRenamingId(entry.id);
+                        setRenameValue(entry.name);
+                      }}
+                      className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-medium text-slate-700 transition hover:bg-slate-50"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => onDelete([entry.id])}
+                      className="rounded-lg px-2.5 py-1 text-xs font-medium text-rose-600 transition hover:bg-rose-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 border-t border-slate-200/70 px-5 py-3">
+          <button
+            onClick={() =>
+              setSelectedIds(
+                selectedEntries.length === visibleEntries.length
+                  ? []
+                  : visibleEntries.map((entry) => entry.id)
+              )
+            }
+            disabled={visibleEntries.length === 0}
+            className="rounded-lg px-2 py-1 text-xs font-medium text-slate-500 transition hover:bg-slate-100 disabled:opacity-40"
+          >
+            {selectedEntries.length === visibleEntries.length && visibleEntries.length > 0
+              ? "Select none"
+              : "Select all"}
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                onDelete(selectedEntries.map((entry) => entry.id));
+                setSelectedIds([]);
+              }}
+              disabled={selectedEntries.length === 0}
+              className="rounded-xl border border-rose-200 bg-white px-3 py-2 text-xs font-medium text-rose-700 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Delete selected
+            </button>
+            <button
+              onClick={() => onExport(selectedEntries)}
+              disabled={selectedEntries.length === 0}
+              className="rounded-xl border border-sky-300 bg-sky-50 px-3 py-2 text-xs font-medium text-sky-800 transition hover:bg-sky-100 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Export {selectedEntries.length > 0 ? selectedEntries.length : ""} as GPX
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+// A north-up raster in geographic coordinates (WGS84 degrees). Both the HGT
+// and GeoTIFF readers decode into this so they can share the sampler.
+export type ElevationGrid = {
+  width: number;
+  height: number;
+  west: number; // longitude of the samples in column 0
+  north: number; // latitude of the samples in row 0
+  pixelWidth: number; // degrees per column
+  pixelHeight: number; // degrees per row (positive, rows go south)
+  data: ArrayLike<number>;
+  noData: number | null;
+};
+
+export function gridContains(grid: ElevationGrid, lng: number, lat: number) {
+  const col = (lng - grid.west) / grid.pixelWidth;
+  const row = (grid.north - lat) / grid.pixelHeight;
+  return col >= 0 && row >= 0 && col <= grid.width - 1 && row <= grid.height - 1;
+}
+
+// Bilinear interpolation between the four surrounding cells. Returns null
+// outside the grid or when any neighbour is a void.
+export function sampleGrid(grid: ElevationGrid, lng: number, lat: number) {
+  if (!gridContains(grid, lng, lat)) return null;
+
+  const col = (lng - grid.west) / grid.pixelWidth;
+  const row = (grid.north - lat) / grid.pixelHeight;
+  const col0 = Math.floor(col);
+  const row0 = Math.floor(row);
+  const col1 = Math.min(col0 + 1, grid.width - 1);
+  const row1 = Math.min(row0 + 1, grid.height - 1);
+  const dx = col - col0;
+  const dy = row - row0;
+
+  const values = [
+    grid.data[row0 * grid.width + col0],
+    grid.data[row0 * grid.width + col1],
+    grid.data[row1 * grid.width + col0],
+    grid.data[row1 * grid.width + col1],
+  ];
+  if (values.some((v) => !Number.isFinite(v) || v === grid.noData)) return null;
+
+  const top = values[0] * (1 - dx) + values[1] * dx;
+  const bottom = values[2] * (1 - dx) + values[3] * dx;
+  return top * (1 - dy) + bottom * dy;
+}
@@ -0,0 +1,104 @@
+import { inflateSync } from "node:zlib";
+
+export type DecodedPng = {
+  width: number;
+  height: number;
+  channels: number;
+  pixels: Uint8Array;
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+// Minimal decoder for the 8-bit, non-interlaced RGB/RGBA PNGs that Mapbox
+// serves for terrain-RGB tiles. Anything else is rejected.
+export function decodePng(buffer: Uint8Array): DecodedPng {
+  if (!PNG_SIGNATURE.every((byte, idx) => buffer[idx] === byte)) {
+    throw new Error("Not a PNG file.");
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idatChunks: Uint8Array[] = [];
+
+  while (offset < buffer.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...buffer.subarray(offset + 4, offset + 8));
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const bitDepth = data[8];
+      const colorType = data[9];
+      const interlace = data[12];
+      if (bitDepth !== 8 || interlace !== 0 || (colorType !== 2 && colorType !== 6)) {
+        throw new Error("Unsupported PNG format for elevation tiles.");
+      }
+      channels = colorType === 6 ? 4 : 3;
+    } else if (type === "IDAT") {
+      idatChunks.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  if (!width || !height || idatChunks.length === 0) {
+    throw new Error("PNG is missing image data.");
+  }
+
+  const raw = inflateSync(Buffer.concat(idatChunks));
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const rowIn = y * (stride + 1) + 1;
+    const rowOut = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const value = raw[rowIn + x];
+      const left = x >= channels ? pixels[rowOut + x - channels] : 0;
+      const up = y > 0 ? pixels[rowOut - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[rowOut - stride + x - channels] : 0;
+
+      let decoded: number;
+      switch (filter) {
+        case 0:
+          decoded = value;
+          break;
+        case 1:
+          decoded = value + left;
+          break;
+        case 2:
+          decoded = value + up;
+          break;
+        case 3:
+          decoded = value + ((left + up) >> 1);
+          break;
+        case 4:
+          decoded = value + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Unsupported PNG filter type ${filter}.`);
+      }
+      pixels[rowOut + x] = decoded & 0xff;
+    }
+  }
+
+  return { width, height, channels, pixels };
+}
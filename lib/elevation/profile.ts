@@ -0,0 +1,115 @@
+import { distanceMeters } from "@/lib/routing/geo";
+import type { LngLatTuple } from "@/lib/routing/types";
+import type { ElevationSource, ElevationStats } from "./types";
+
+const MIN_SAMPLE_SPACING_M = 25;
+const MAX_SAMPLES = 400;
+const SMOOTHING_WINDOW = 5;
+const GRADE_WINDOW_M = 100;
+
+// Resamples the route at even spacing so the stats don't depend on how
+// densely the router happened to emit vertices.
+export function sampleAlongRoute(coordinates: LngLatTuple[], spacingM: number) {
+  const samples: Array<{ point: LngLatTuple; distance_m: number }> = [];
+  if (coordinates.length === 0) return samples;
+
+  samples.push({ point: coordinates[0], distance_m: 0 });
+  let travelled = 0;
+  let nextSampleAt = spacingM;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const a = coordinates[i - 1];
+    const b = coordinates[i];
+    const segmentMeters = distanceMeters(a, b);
+    if (segmentMeters <= 0) continue;
+
+    while (nextSampleAt <= travelled + segmentMeters) {
+      const t = (nextSampleAt - travelled) / segmentMeters;
+      samples.push({
+        point: [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t],
+        distance_m: nextSampleAt,
+      });
+      nextSampleAt += spacingM;
+    }
+    travelled += segmentMeters;
+  }
+
+  const last = coordinates[coordinates.length - 1];
+  if (travelled - samples[samples.length - 1].distance_m > 1) {
+    samples.push({ point: last, distance_m: travelled });
+  }
+
+  return samples;
+}
+
+function smooth(values: number[], window: number) {
+  const half = Math.floor(window / 2);
+  return values.map((_, idx) => {
+    const from = Math.max(0, idx - half);
+    const to = Math.min(values.length, idx + half + 1);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += values[i];
+    return sum / (to - from);
+  });
+}
+
+export function computeElevationStats(
+  distances: number[],
+  elevations: number[]
+): ElevationStats | null {
+  if (elevations.length < 2) return null;
+
+  // DEM noise adds phantom climbing on flat ground, so smooth first.
+  const smoothed = smooth(elevations, SMOOTHING_WINDOW);
+  let ascent = 0;
+  let descent = 0;
+  let maxGrade = 0;
+
+  for (let i = 1; i < smoothed.length; i++) {
+    const delta = smoothed[i] - smoothed[i - 1];
+    if (delta > 0) ascent += delta;
+    else descent -= delta;
+  }
+
+  for (let i = 0, j = 0; i < smoothed.length; i++) {
+    while (j < smoothed.length - 1 && distances[j] - distances[i] < GRADE_WINDOW_M) j++;
+    const run = distances[j] - distances[i];
+    if (run < GRADE_WINDOW_M * 0.5) break;
+    maxGrade = Math.max(maxGrade, Math.abs(smoothed[j] - smoothed[i]) / run);
+  }
+
+  return {
+    ascent_m: ascent,
+    descent_m: descent,
+    max_grade_pct: maxGrade * 100,
+    min_elevation_m: Math.min(...smoothed),
+    max_elevation_m: Math.max(...smoothed),
+    profile: smoothed.map((elevation_m, idx) => ({ distance_m: distances[idx], elevation_m })),
+  };
+}
+
+export async function getRouteElevationStats(
+  coordinates: LngLatTuple[],
+  source: ElevationSource
+): Promise<ElevationStats | null> {
+  let totalMeters = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    totalMeters += distanceMeters(coordinates[i - 1], coordinates[i]);
+  }
+  const spacingM = Math.max(MIN_SAMPLE_SPACING_M, totalMeters / MAX_SAMPLES);
+  const samples = sampleAlongRoute(coordinates, spacingM);
+  const elevations = await source.getElevations(samples.map((s) => s.point));
+
+  // Voids are dropped rather than interpolated; a route that is mostly void
+  // (e.g. off the edge of a local DEM) reports no elevation at all.
+  const distances: number[] = [];
+  const values: number[] = [];
+  elevations.forEach((value, idx) => {
+    if (value === null) return;
+    distances.push(samples[idx].distance_m);
+    values.push(value);
+  });
+  if (values.length < samples.length * 0.8) return null;
+
+  return computeElevationStats(distances, values);
+}
@@ -0,0 +1,228 @@
+import { readFile } from "node:fs/promises";
+import { inflateSync } from "node:zlib";
+import type { LngLatTuple } from "@/lib/routing/types";
+import { sampleGrid, type ElevationGrid } from "../grid";
+import type { ElevationSource } from "../types";
+
+const TAG = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  gdalNoData: 42113,
+};
+
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+type TiffTags = Map<number, number[] | string>;
+
+function readIfd(view: DataView, offset: number, littleEndian: boolean): TiffTags {
+  const tags: TiffTags = new Map();
+  const entryCount = view.getUint16(offset, littleEndian);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const count = view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const valueOffset =
+      size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, count);
+      tags.set(tag, String.fromCharCode(...bytes).replace(/\0+$/, ""));
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let j = 0; j < count; j++) {
+      const at = valueOffset + j * size;
+      switch (type) {
+        case 1:
+          values.push(view.getUint8(at));
+          break;
+        case 6:
+          values.push(view.getInt8(at));
+          break;
+        case 3:
+          values.push(view.getUint16(at, littleEndian));
+          break;
+        case 8:
+          values.push(view.getInt16(at, littleEndian));
+          break;
+        case 4:
+          values.push(view.getUint32(at, littleEndian));
+          break;
+        case 9:
+          values.push(view.getInt32(at, littleEndian));
+          break;
+        case 5:
+          values.push(
+            view.getUint32(at, littleEndian) / view.getUint32(at + 4, littleEndian)
+          );
+          break;
+        case 11:
+          values.push(view.getFloat32(at, littleEndian));
+          break;
+        case 12:
+          values.push(view.getFloat64(at, littleEndian));
+          break;
+      }
+    }
+    tags.set(tag, values);
+  }
+
+  return tags;
+}
+
+function numberTag(tags: TiffTags, tag: number): number[] | null {
+  const value = tags.get(tag);
+  return Array.isArray(value) ? value : null;
+}
+
+function readSample(
+  view: DataView,
+  at: number,
+  bits: number,
+  format: number,
+  littleEndian: boolean
+) {
+  if (format === 3 && bits === 32) return view.getFloat32(at, littleEndian);
+  if (format === 3 && bits === 64) return view.getFloat64(at, littleEndian);
+  if (format === 2 && bits === 16) return view.getInt16(at, littleEndian);
+  if (format === 2 && bits === 32) return view.getInt32(at, littleEndian);
+  if (bits === 16) return view.getUint16(at, littleEndian);
+  if (bits === 32) return view.getUint32(at, littleEndian);
+  if (bits === 8) return view.getUint8(at);
+  throw new Error(`Unsupported GeoTIFF sample layout (${bits}-bit, format ${format}).`);
+}
+
+// Reads a single-band GeoTIFF DEM in geographic WGS84 coordinates. Supports
+// stripped or tiled layouts, uncompressed or deflate, with or without the
+// horizontal-differencing predictor. Reprojected rasters are out of scope.
+export function parseGeoTiff(buffer: Uint8Array): ElevationGrid {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const byteOrder = String.fromCharCode(buffer[0], buffer[1]);
+  if (byteOrder !== "II" && byteOrder !== "MM") throw new Error("Not a TIFF file.");
+  const littleEndian = byteOrder === "II";
+  if (view.getUint16(2, littleEndian) !== 42) {
+    throw new Error("BigTIFF files are not supported.");
+  }
+
+  const tags = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+  const width = numberTag(tags, TAG.imageWidth)?.[0] ?? 0;
+  const height = numberTag(tags, TAG.imageLength)?.[0] ?? 0;
+  const bits = numberTag(tags, TAG.bitsPerSample)?.[0] ?? 8;
+  const format = numberTag(tags, TAG.sampleFormat)?.[0] ?? 1;
+  const compression = numberTag(tags, TAG.compression)?.[0] ?? 1;
+  const predictor = numberTag(tags, TAG.predictor)?.[0] ?? 1;
+  const samplesPerPixel = numberTag(tags, TAG.samplesPerPixel)?.[0] ?? 1;
+  const scale = numberTag(tags, TAG.modelPixelScale);
+  const tiepoint = numberTag(tags, TAG.modelTiepoint);
+
+  if (!width || !height || !scale || !tiepoint) {
+    throw new Error("GeoTIFF is missing size or georeferencing tags.");
+  }
+  if (samplesPerPixel !== 1) throw new Error("GeoTIFF DEM must have a single band.");
+  if (compression !== 1 && compression !== 8 && compression !== 32946) {
+    throw new Error(`Unsupported GeoTIFF compression ${compression}.`);
+  }
+
+  const tiled = tags.has(TAG.tileOffsets);
+  const blockWidth = tiled ? numberTag(tags, TAG.tileWidth)![0] : width;
+  const blockHeight = tiled
+    ? numberTag(tags, TAG.tileLength)![0]
+    : Math.min(numberTag(tags, TAG.rowsPerStrip)?.[0] ?? height, height);
+  const offsets = numberTag(tags, tiled ? TAG.tileOffsets : TAG.stripOffsets) ?? [];
+  const byteCounts =
+    numberTag(tags, tiled ? TAG.tileByteCounts : TAG.stripByteCounts) ?? [];
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const bytesPerSample = bits / 8;
+  const data = new Float32Array(width * height);
+
+  offsets.forEach((offset, blockIdx) => {
+    let block = buffer.subarray(offset, offset + byteCounts[blockIdx]);
+    if (compression !== 1) block = inflateSync(block);
+    const blockView = new DataView(block.buffer, block.byteOffset, block.byteLength);
+    const originX = (blockIdx % blocksAcross) * blockWidth;
+    const originY = Math.floor(blockIdx / blocksAcross) * blockHeight;
+
+    for (let y = 0; y < blockHeight && originY + y < height; y++) {
+      let previous = 0;
+      for (let x = 0; x < blockWidth; x++) {
+        const at = (y * blockWidth + x) * bytesPerSample;
+        if (at + bytesPerSample > block.byteLength) break;
+        let value = readSample(blockView, at, bits, format, littleEndian);
+        if (predictor === 2) {
+          value = x === 0 ? value : value + previous;
+          if (format !== 3) {
+            // Integer predictor sums wrap at the sample width.
+            const range = 2 ** bits;
+            value = ((value % range) + range) % range;
+            if (format === 2 && value >= range / 2) value -= range;
+          }
+          previous = value;
+        }
+        if (originX + x < width) {
+          data[(originY + y) * width + originX + x] = value;
+        }
+      }
+    }
+  });
+
+  const noDataTag = tags.get(TAG.gdalNoData);
+  const noData = typeof noDataTag === "string" && noDataTag.trim() ? Number(noDataTag) : null;
+
+  // Tiepoint maps raster (i, j) to model (x, y); pixel scale is degrees/pixel.
+  // GeoTIFFs default to PixelIsArea, so sample centers sit half a pixel in.
+  const [i, j, , x, y] = tiepoint;
+  return {
+    width,
+    height,
+    west: x - i * scale[0] + scale[0] / 2,
+    north: y + j * scale[1] - scale[1] / 2,
+    pixelWidth: scale[0],
+    pixelHeight: scale[1],
+    data,
+    noData: Number.isFinite(noData) ? noData : null,
+  };
+}
+
+export function createGeoTiffSource(config: { path: string }): ElevationSource {
+  let gridPromise: Promise<ElevationGrid> | null = null;
+
+  return {
+    name: "geotiff",
+    async getElevations(points: LngLatTuple[]) {
+      gridPromise ??= readFile(config.path).then((file) => parseGeoTiff(file));
+      const grid = await gridPromise;
+      return points.map(([lng, lat]) => sampleGrid(grid, lng, lat));
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { LngLatTuple } from "@/lib/routing/types";
+import { sampleGrid, type ElevationGrid } from "../grid";
+import type { ElevationSource } from "../types";
+
+const HGT_VOID = -32768;
+
+// SRTM tiles are named after their south-west corner, e.g. N49W124.hgt
+// covers 49..50°N and 124..123°W.
+function hgtTileName(lng: number, lat: number) {
+  const south = Math.floor(lat);
+  const west = Math.floor(lng);
+  const latPart = `${south >= 0 ? "N" : "S"}${String(Math.abs(south)).padStart(2, "0")}`;
+  const lngPart = `${west >= 0 ? "E" : "W"}${String(Math.abs(west)).padStart(3, "0")}`;
+  return { name: `${latPart}${lngPart}.hgt`, south, west };
+}
+
+async function loadHgtTile(
+  filePath: string,
+  south: number,
+  west: number
+): Promise<ElevationGrid | null> {
+  let buffer: Buffer;
+  try {
+    buffer = await readFile(filePath);
+  } catch {
+    return null;
+  }
+
+  const size = Math.round(Math.sqrt(buffer.length / 2));
+  if (size * size * 2 !== buffer.length) {
+    throw new Error(`${path.basename(filePath)} is not a square HGT grid.`);
+  }
+
+  // HGT samples are big-endian int16, row 0 on the north edge.
+  const data = new Int16Array(size * size);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = buffer.readInt16BE(i * 2);
+  }
+
+  return {
+    width: size,
+    height: size,
+    west,
+    north: south + 1,
+    pixelWidth: 1 / (size - 1),
+    pixelHeight: 1 / (size - 1),
+    data,
+    noData: HGT_VOID,
+  };
+}
+
+export function createHgtSource(config: { dir: string }): ElevationSource {
+  const tiles = new Map<string, Promise<ElevationGrid | null>>();
+
+  return {
+    name: "hgt",
+    async getElevations(points: LngLatTuple[]) {
+      return Promise.all(
+        points.map(async ([lng, lat]) => {
+          const { name, south, west } = hgtTileName(lng, lat);
+          let tile = tiles.get(name);
+          if (!tile) {
+            tile = loadHgtTile(path.join(config.dir, name), south, west);
+            tiles.set(name, tile);
+          }
+          const grid = await tile;
+          return grid ? sampleGrid(grid, lng, lat) : null;
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import path from "node:path";
+import type { ElevationSource } from "../types";
+import { createGeoTiffSource } from "./geotiff";
+import { createHgtSource } from "./hgt";
+import { createTerrainRgbSource } from "./terrain-rgb";
+
+type ElevationConfigResult =
+  | { ok: true; source: ElevationSource | null }
+  | { ok: false; reason: string };
+
+// Picks the DEM from environment variables:
+//   ELEVATION_SOURCE=mapbox|hgt|geotiff|none
+// Defaults to Mapbox terrain tiles when a Mapbox token is configured, and to
+// no elevation data otherwise.
+export function getElevationSource(
+  env: NodeJS.ProcessEnv = process.env
+): ElevationConfigResult {
+  const fallback = env.MAPBOX_SECRET_TOKEN ? "mapbox" : "none";
+  const sourceName = (env.ELEVATION_SOURCE || fallback).trim().toLowerCase();
+
+  switch (sourceName) {
+    case "none":
+      return { ok: true, source: null };
+    case "mapbox": {
+      const token = env.MAPBOX_SECRET_TOKEN;
+      if (!token) return { ok: false, reason: "Missing MAPBOX_SECRET_TOKEN" };
+      return { ok: true, source: createTerrainRgbSource({ token }) };
+    }
+    case "hgt": {
+      const dir = env.ELEVATION_HGT_DIR;
+      if (!dir) return { ok: false, reason: "Missing ELEVATION_HGT_DIR" };
+      return { ok: true, source: createHgtSource({ dir: path.resolve(dir) }) };
+    }
+    case "geotiff": {
+      const file = env.ELEVATION_GEOTIFF_PATH;
+      if (!file) return { ok: false, reason: "Missing ELEVATION_GEOTIFF_PATH" };
+      return { ok: true, source: createGeoTiffSource({ path: path.resolve(file) }) };
+    }
+    default:
+      return { ok: false, reason: `Unknown ELEVATION_SOURCE "${sourceName}"` };
+  }
+}
@@ -0,0 +1,82 @@
+import type { LngLatTuple } from "@/lib/routing/types";
+import { decodePng, type DecodedPng } from "../png";
+import type { ElevationSource } from "../types";
+
+const TILE_SIZE = 256;
+const MAX_CACHED_TILES = 64;
+
+function lngLatToTilePixel(lng: number, lat: number, zoom: number) {
+  const scale = 2 ** zoom;
+  const latRad = (lat * Math.PI) / 180;
+  const x = ((lng + 180) / 360) * scale;
+  const y =
+    ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale;
+  const tileX = Math.floor(x);
+  const tileY = Math.floor(y);
+
+  return {
+    tileX,
+    tileY,
+    px: Math.min(TILE_SIZE - 1, Math.floor((x - tileX) * TILE_SIZE)),
+    py: Math.min(TILE_SIZE - 1, Math.floor((y - tileY) * TILE_SIZE)),
+  };
+}
+
+function decodeTerrainRgb(tile: DecodedPng, px: number, py: number) {
+  const idx = (py * tile.width + px) * tile.channels;
+  const r = tile.pixels[idx];
+  const g = tile.pixels[idx + 1];
+  const b = tile.pixels[idx + 2];
+  return -10000 + (r * 256 * 256 + g * 256 + b) * 0.1;
+}
+
+// Samples Mapbox terrain-RGB raster tiles. Decoded tiles are kept in a small
+// module-level cache because consecutive candidates share most of their tiles.
+const tileCache = new Map<string, Promise<DecodedPng | null>>();
+
+export function createTerrainRgbSource(config: {
+  token: string;
+  zoom?: number;
+}): ElevationSource {
+  const zoom = config.zoom ?? 14;
+
+  const loadTile = (tileX: number, tileY: number) => {
+    const key = `${zoom}/${tileX}/${tileY}`;
+    const cached = tileCache.get(key);
+    if (cached) return cached;
+
+    const url =
+      `https://api.mapbox.com/v4/mapbox.terrain-rgb/${key}.pngraw` +
+      `?access_token=${config.token}`;
+    const tilePromise = fetch(url)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Terrain tile error: ${res.status}`);
+        return decodePng(new Uint8Array(await res.arrayBuffer()));
+      })
+      .catch((err) => {
+        console.error("Terrain tile error", err);
+        tileCache.delete(key);
+        return null;
+      });
+
+    tileCache.set(key, tilePromise);
+    if (tileCache.size > MAX_CACHED_TILES) {
+      const oldestKey = tileCache.keys().next().value;
+      if (oldestKey !== undefined) tileCache.delete(oldestKey);
+    }
+    return tilePromise;
+  };
+
+  return {
+    name: "mapbox-terrain",
+    async getElevations(points: LngLatTuple[]) {
+      return Promise.all(
+        points.map(async ([lng, lat]) => {
+          const { tileX, tileY, px, py } = lngLatToTilePixel(lng, lat, zoom);
+          const tile = await loadTile(tileX, tileY);
+          return tile ? decodeTerrainRgb(tile, px, py) : null;
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { LngLatTuple } from "@/lib/routing/types";
+
+export type ElevationSource = {
+  name: string;
+  // One value per input point, in meters. null where the DEM has no data.
+  getElevations(points: LngLatTuple[]): Promise<Array<number | null>>;
+};
+
+export type ElevationSample = {
+  distance_m: number; // along the route geometry
+  elevation_m: number;
+};
+
+export type ElevationStats = {
+  ascent_m: number;
+  descent_m: number;
+  max_grade_pct: number;
+  min_elevation_m: number;
+  max_elevation_m: number;
+  // Smoothed samples the stats were computed from, for grade-aware estimates.
+  profile: ElevationSample[];
+};
+
+export type HillPreference = "flat" | "rolling" | "hilly";
@@ -0,0 +1,110 @@
+import { isGenericPathName } from "../routing/maneuvers";
+import type { LngLatTuple, TrackPoint } from "./points";
+
+// A turn cue, shaped like the route API's steps.
+export type CueStep = {
+  instruction: string;
+  location: LngLatTuple | null;
+  type: string | null;
+  modifier: string | null;
+  name?: string | null;
+};
+
+export type CueKind =
+  | "left"
+  | "slight_left"
+  | "sharp_left"
+  | "right"
+  | "slight_right"
+  | "sharp_right"
+  | "straight"
+  | "u_turn"
+  | "finish"
+  | "generic";
+
+export type MatchedCue = {
+  // Index of the track point the cue sits on.
+  index: number;
+  kind: CueKind;
+  // Short label for device screens (10 characters at most).
+  name: string;
+  instruction: string;
+  // Street the maneuver leads onto, when it has a real name.
+  street: string | null;
+};
+
+const CUE_NAMES: Record<CueKind, string> = {
+  left: "Left",
+  slight_left: "Bear left",
+  sharp_left: "Sharp left",
+  right: "Right",
+  slight_right: "Bear right",
+  sharp_right: "Sharp rt",
+  straight: "Straight",
+  u_turn: "U-turn",
+  finish: "Finish",
+  generic: "Continue",
+};
+
+// Cues farther than this from the line are dropped rather than mislabeled.
+const MAX_CUE_OFFSET_M = 60;
+
+function cueKind(step: CueStep): CueKind {
+  const modifier = step.modifier ?? "";
+  if (step.type === "arrive") return "finish";
+  if (modifier === "uturn") return "u_turn";
+  if (modifier.includes("left")) {
+    if (modifier.startsWith("slight")) return "slight_left";
+    if (modifier.startsWith("sharp")) return "sharp_left";
+    return "left";
+  }
+  if (modifier.includes("right")) {
+    if (modifier.startsWith("slight")) return "slight_right";
+    if (modifier.startsWith("sharp")) return "sharp_right";
+    return "right";
+  }
+  if (modifier === "straight") return "straight";
+  return "generic";
+}
+
+function nearestPointIndex(points: TrackPoint[], location: LngLatTuple, fromIndex: number) {
+  // Flat-earth distances are fine for picking the closest vertex.
+  const cosLat = Math.cos((location[1] * Math.PI) / 180);
+  let best = -1;
+  let bestMeters = Infinity;
+  for (let i = fromIndex; i < points.length; i++) {
+    const dx = (points[i].lon - location[0]) * cosLat * 111320;
+    const dy = (points[i].lat - location[1]) * 111320;
+    const meters = Math.hypot(dx, dy);
+    if (meters < bestMeters) {
+      best = i;
+      bestMeters = meters;
+    }
+  }
+  return bestMeters <= MAX_CUE_OFFSET_M ? best : -1;
+}
+
+// Pins each step's maneuver to a track point. Steps are matched in order, so
+// a loop that passes the same corner twice gets each cue at the right time.
+export function matchCuesToTrack(points: TrackPoint[], steps: CueStep[]): MatchedCue[] {
+  const cues: MatchedCue[] = [];
+  let searchFrom = 0;
+
+  for (const step of steps) {
+    if (step.type === "depart" || !step.location) continue;
+    const index = nearestPointIndex(points, step.location, searchFrom);
+    if (index < 0) continue;
+    searchFrom = index;
+
+    const kind = cueKind(step);
+    cues.push({
+      index,
+      kind,
+      name: CUE_NAMES[kind],
+      instruction: step.instruction.trim() || CUE_NAMES[kind],
+      street: step.name && !isGenericPathName(step.name) ? step.name.trim() : null,
+    });
+  }
+
+  return cues;
+}
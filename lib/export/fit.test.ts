@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { CueStep } from "./cues";
+import {
+  decodeFit,
+  decodeFitCourse,
+  fitCrc,
+  routeToFit,
+  validateFitCourseMatchesRoute,
+} from "./fit";
+import type { LngLatTuple } from "./points";
+
+const LINE: LngLatTuple[] = [
+  [-123.1207, 49.2827],
+  [-123.1207, 49.2845],
+  [-123.118, 49.2845],
+  [-123.118, 49.286],
+];
+
+const STEPS: CueStep[] = [
+  { instruction: "Head north", location: LINE[0], type: "depart", modifier: null },
+  {
+    instruction: "Turn right onto Robson Street",
+    location: LINE[1],
+    type: "turn",
+    modifier: "right",
+    name: "Robson Street",
+  },
+  { instruction: "Turn left", location: LINE[2], type: "turn", modifier: "left" },
+  { instruction: "You have arrived", location: LINE[3], type: "arrive", modifier: null },
+];
+
+describe("fitCrc", () => {
+  it("matches the CRC-16 check value", () => {
+    expect(fitCrc(new TextEncoder().encode("123456789"))).toBe(0xbb3d);
+  });
+
+  it("is zero over data followed by its own CRC", () => {
+    const file = routeToFit(LINE);
+    expect(fitCrc(file)).toBe(0);
+  });
+});
+
+describe("routeToFit", () => {
+  it("round trips the course through the decoder", () => {
+    const file = routeToFit(LINE, {
+      name: "Morning loop",
+      steps: STEPS,
+      durationSeconds: 600,
+      startTime: "2026-05-01T07:00:00Z",
+    });
+    const course = decodeFitCourse(file);
+
+    expect(course.name).toBe("Morning loop");
+    expect(course.sport).toBe(1);
+    expect(course.records).toHaveLength(LINE.length);
+    course.records.forEach((record, idx) => {
+      expect(record.lon).toBeCloseTo(LINE[idx][0], 6);
+      expect(record.lat).toBeCloseTo(LINE[idx][1], 6);
+    });
+    expect(course.records[0].timestamp.toISOString()).toBe("2026-05-01T07:00:00.000Z");
+    expect(course.records.at(-1)?.timestamp.toISOString()).toBe("2026-05-01T07:10:00.000Z");
+    expect(course.totalDistance).toBeCloseTo(course.records.at(-1)?.distance ?? 0, 1);
+    expect(course.coursePoints.map((point) => point.name)).toEqual(["Right", "Left", "Finish"]);
+    expect(validateFitCourseMatchesRoute(file, LINE)).toEqual({ ok: true });
+  });
+
+  it("writes the activity's sport", () => {
+    expect(decodeFitCourse(routeToFit(LINE, { activity: "cycle" })).sport).toBe(2);
+    expect(decodeFitCourse(routeToFit(LINE, { activity: "walk" })).sport).toBe(11);
+    expect(decodeFitCourse(routeToFit(LINE, { activity: "trail-run" })).sport).toBe(1);
+  });
+
+  it("cuts long names to fit the field", () => {
+    const course = decodeFitCourse(routeToFit(LINE, { name: "A much longer course name" }));
+    expect(new TextEncoder().encode(course.name).length).toBeLessThanOrEqual(15);
+  });
+});
+
+describe("decodeFit", () => {
+  it("rejects a file with a corrupted data byte", () => {
+    const file = routeToFit(LINE);
+    file[20] ^= 0xff;
+    expect(() => decodeFit(file)).toThrow("FIT file CRC mismatch.");
+  });
+
+  it("rejects a file with a corrupted header", () => {
+    const file = routeToFit(LINE);
+    file[4] ^= 0x01;
+    expect(() => decodeFit(file)).toThrow("FIT header CRC mismatch.");
+  });
+
+  it("rejects a truncated file", () => {
+    expect(() => decodeFit(routeToFit(LINE).subarray(0, 40))).toThrow("FIT file is truncated.");
+  });
+
+  it("reports a mismatched route instead of throwing", () => {
+    const result = validateFitCourseMatchesRoute(routeToFit(LINE), LINE.slice(0, 3));
+    expect(result.ok).toBe(false);
+  });
+});
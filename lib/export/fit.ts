@@ -0,0 +1,536 @@
+import { ACTIVITY_PROFILES, type Activity } from "../routing/activity";
+import { matchCuesToTrack, type CueKind, type CueStep } from "./cues";
+import {
+  cumulativeDistances,
+  normalizeRoutePoints,
+  type RouteInput,
+  type TrackPoint,
+  type TupleOrder,
+  type ValidationResult,
+} from "./points";
+
+// Binary FIT course files, as described in the Garmin FIT SDK. Only the
+// pieces a course needs are implemented: normal record headers, little-endian
+// definitions and the file_id, course, lap, event, record and course_point
+// messages.
+
+type RouteToFitOptions = {
+  name?: string;
+  steps?: CueStep[];
+  // Expected moving time; record and course point times are spread over it.
+  // Without one, the activity's usual pace is assumed.
+  durationSeconds?: number;
+  startTime?: string | Date;
+  tupleOrder?: TupleOrder;
+  // Sets the course sport, so the device starts the right activity. Defaults to a run.
+  activity?: Activity;
+};
+
+type BaseType = { id: number; size: number };
+
+type FieldSpec = { num: number; type: BaseType; size?: number };
+
+type FitValue = number | string;
+
+export type FitMessage = {
+  global: number;
+  fields: Record<number, FitValue>;
+};
+
+type FitRecord = TrackPoint & { distance: number; timestamp: Date };
+
+type FitCoursePoint = TrackPoint & { distance: number; type: number; name: string };
+
+type FitCourse = {
+  name: string;
+  sport: number | null;
+  totalDistance: number | null;
+  records: FitRecord[];
+  coursePoints: FitCoursePoint[];
+};
+
+const BASE_TYPES = {
+  enum: { id: 0x00, size: 1 },
+  uint8: { id: 0x02, size: 1 },
+  string: { id: 0x07, size: 1 },
+  uint16: { id: 0x84, size: 2 },
+  sint32: { id: 0x85, size: 4 },
+  uint32: { id: 0x86, size: 4 },
+} satisfies Record<string, BaseType>;
+
+const MESG = {
+  fileId: 0,
+  lap: 19,
+  record: 20,
+  event: 21,
+  course: 31,
+  coursePoint: 32,
+};
+
+const FILE_TYPE_COURSE = 6;
+const MANUFACTURER_DEVELOPMENT = 255;
+const EVENT_TIMER = 0;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP_DISABLE_ALL = 9;
+const NAME_BYTES = 16;
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z.
+const FIT_EPOCH_S = 631065600;
+const SEMICIRCLES_PER_DEGREE = 2 ** 31 / 180;
+
+// FIT sport enum values.
+const FIT_SPORTS: Record<Activity, number> = {
+  run: 1,
+  "trail-run": 1,
+  walk: 11,
+  cycle: 2,
+};
+
+const COURSE_POINT_TYPES: Record<CueKind, number> = {
+  generic: 0,
+  finish: 0,
+  left: 6,
+  right: 7,
+  straight: 8,
+  slight_left: 19,
+  sharp_left: 20,
+  slight_right: 21,
+  sharp_right: 22,
+  u_turn: 23,
+};
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800,
+  0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+export function fitCrc(bytes: Uint8Array, start = 0, end = bytes.length) {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+function toFitTime(date: Date) {
+  return Math.round(date.getTime() / 1000) - FIT_EPOCH_S;
+}
+
+function toSemicircles(degrees: number) {
+  return Math.round(degrees * SEMICIRCLES_PER_DEGREE);
+}
+
+// Null-terminated UTF-8, cut on a character boundary to fit `size` bytes.
+function encodeString(value: string, size: number) {
+  const encoder = new TextEncoder();
+  let text = value;
+  let encoded = encoder.encode(text);
+  while (encoded.length > size - 1) {
+    text = text.slice(0, -1).trimEnd();
+    encoded = encoder.encode(text);
+  }
+  const bytes = new Uint8Array(size);
+  bytes.set(encoded);
+  return bytes;
+}
+
+function createFitWriter() {
+  const chunks: number[] = [];
+  const definitions = new Map<number, FieldSpec[]>();
+
+  const writeUint = (value: number, size: number) => {
+    for (let i = 0; i < size; i++) chunks.push(Math.floor(value / 2 ** (8 * i)) & 0xff);
+  };
+
+  return {
+    define(local: number, global: number, fields: FieldSpec[]) {
+      definitions.set(local, fields);
+      chunks.push(0x40 | local, 0, 0);
+      writeUint(global, 2);
+      chunks.push(fields.length);
+      for (const field of fields) {
+        chunks.push(field.num, field.size ?? field.type.size, field.type.id);
+      }
+    },
+    write(local: number, values: FitValue[]) {
+      const fields = definitions.get(local);
+      if (!fields || fields.length !== values.length) {
+        throw new Error(`FIT message ${local} does not match its definition.`);
+      }
+      chunks.push(local);
+      fields.forEach((field, idx) => {
+        const value = values[idx];
+        if (typeof value === "string") {
+          chunks.push(...encodeString(value, field.size ?? NAME_BYTES));
+        } else {
+          // Two's complement for negative sint32 values.
+          writeUint(value < 0 ? value + 2 ** (8 * field.type.size) : value, field.type.size);
+        }
+      });
+    },
+    finish() {
+      const data = Uint8Array.from(chunks);
+      const header = new Uint8Array(14);
+      const view = new DataView(header.buffer);
+      view.setUint8(0, 14);
+      view.setUint8(1, 0x20);
+      view.setUint16(2, 2132, true);
+      view.setUint32(4, data.length, true);
+      header.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+      view.setUint16(12, fitCrc(header, 0, 12), true);
+
+      const file = new Uint8Array(14 + data.length + 2);
+      file.set(header);
+      file.set(data, 14);
+      new DataView(file.buffer).setUint16(file.length - 2, fitCrc(file, 0, file.length - 2), true);
+      return file;
+    },
+  };
+}
+
+// Encodes a route as a FIT course with a lap, one record per track point and
+// a course point per turn cue.
+export function routeToFit(route: RouteInput, options: RouteToFitOptions = {}) {
+  const points = normalizeRoutePoints(route, options.tupleOrder, "FIT");
+  const distances = cumulativeDistances(points);
+  const totalMeters = distances[distances.length - 1];
+  const durationSeconds =
+    options.durationSeconds !== undefined && options.durationSeconds > 0
+      ? options.durationSeconds
+      : (totalMeters / 1000) * ACTIVITY_PROFILES[options.activity ?? "run"].paceSPerKm;
+  const startTime = new Date(options.startTime ?? Date.now());
+  if (!Number.isFinite(startTime.getTime())) {
+    throw new Error("Invalid start time provided for FIT export.");
+  }
+
+  const startFit = toFitTime(startTime);
+  const timeAt = (meters: number) =>
+    startFit + Math.round(totalMeters > 0 ? (meters / totalMeters) * durationSeconds : 0);
+  const endFit = timeAt(totalMeters);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const { enum: fitEnum, uint8, string, uint16, sint32, uint32 } = BASE_TYPES;
+
+  const writer = createFitWriter();
+
+  writer.define(0, MESG.fileId, [
+    { num: 0, type: fitEnum },
+    { num: 1, type: uint16 },
+    { num: 2, type: uint16 },
+    { num: 4, type: uint32 },
+  ]);
+  writer.write(0, [FILE_TYPE_COURSE, MANUFACTURER_DEVELOPMENT, 0, startFit]);
+
+  writer.define(1, MESG.course, [
+    { num: 4, type: fitEnum },
+    { num: 5, type: string, size: NAME_BYTES },
+  ]);
+  writer.write(1, [FIT_SPORTS[options.activity ?? "run"], options.name ?? "Run Routr"]);
+
+  writer.define(2, MESG.lap, [
+    { num: 253, type: uint32 },
+    { num: 2, type: uint32 },
+    { num: 3, type: sint32 },
+    { num: 4, type: sint32 },
+    { num: 5, type: sint32 },
+    { num: 6, type: sint32 },
+    { num: 7, type: uint32 },
+    { num: 8, type: uint32 },
+    { num: 9, type: uint32 },
+  ]);
+  writer.write(2, [
+    endFit,
+    startFit,
+    toSemicircles(first.lat),
+    toSemicircles(first.lon),
+    toSemicircles(last.lat),
+    toSemicircles(last.lon),
+    Math.round(durationSeconds * 1000),
+    Math.round(durationSeconds * 1000),
+    Math.round(totalMeters * 100),
+  ]);
+
+  writer.define(3, MESG.event, [
+    { num: 253, type: uint32 },
+    { num: 0, type: fitEnum },
+    { num: 1, type: fitEnum },
+    { num: 4, type: uint8 },
+  ]);
+  writer.write(3, [startFit, EVENT_TIMER, EVENT_TYPE_START, 0]);
+
+  writer.define(4, MESG.record, [
+    { num: 253, type: uint32 },
+    { num: 0, type: sint32 },
+    { num: 1, type: sint32 },
+    { num: 5, type: uint32 },
+  ]);
+  points.forEach((point, idx) => {
+    writer.write(4, [
+      timeAt(distances[idx]),
+      toSemicircles(point.lat),
+      toSemicircles(point.lon),
+      Math.round(distances[idx] * 100),
+    ]);
+  });
+
+  writer.write(3, [endFit, EVENT_TIMER, EVENT_TYPE_STOP_DISABLE_ALL, 0]);
+
+  const cues = matchCuesToTrack(points, options.steps ?? []);
+  if (cues.length > 0) {
+    writer.define(5, MESG.coursePoint, [
+      { num: 254, type: uint16 },
+      { num: 1, type: uint32 },
+      { num: 2, type: sint32 },
+      { num: 3, type: sint32 },
+      { num: 4, type: uint32 },
+      { num: 5, type: fitEnum },
+      { num: 6, type: string, size: NAME_BYTES },
+    ]);
+    cues.forEach((cue, idx) => {
+      const point = points[cue.index];
+      writer.write(5, [
+        idx,
+        timeAt(distances[cue.index]),
+        toSemicircles(point.lat),
+        toSemicircles(point.lon),
+        Math.round(distances[cue.index] * 100),
+        COURSE_POINT_TYPES[cue.kind],
+        cue.name,
+      ]);
+    });
+  }
+
+  return writer.finish();
+}
+
+function readValue(
+  view: DataView,
+  offset: number,
+  size: number,
+  baseTypeId: number,
+  littleEndian: boolean
+): FitValue | null {
+  const baseNum = baseTypeId & 0x1f;
+
+  if (baseNum === 0x07) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, size);
+    const end = bytes.indexOf(0);
+    return new TextDecoder().decode(end >= 0 ? bytes.subarray(0, end) : bytes);
+  }
+
+  // Arrays and base types a course doesn't use are skipped.
+  let value: number;
+  let invalid: number | null;
+  switch (baseNum) {
+    case 0x00:
+    case 0x02:
+      if (size !== 1) return null;
+      value = view.getUint8(offset);
+      invalid = 0xff;
+      break;
+    case 0x01:
+      if (size !== 1) return null;
+      value = view.getInt8(offset);
+      invalid = 0x7f;
+      break;
+    case 0x03:
+      if (size !== 2) return null;
+      value = view.getInt16(offset, littleEndian);
+      invalid = 0x7fff;
+      break;
+    case 0x04:
+      if (size !== 2) return null;
+      value = view.getUint16(offset, littleEndian);
+      invalid = 0xffff;
+      break;
+    case 0x05:
+      if (size !== 4) return null;
+      value = view.getInt32(offset, littleEndian);
+      invalid = 0x7fffffff;
+      break;
+    case 0x06:
+      if (size !== 4) return null;
+      value = view.getUint32(offset, littleEndian);
+      invalid = 0xffffffff;
+      break;
+    case 0x0c:
+      if (size !== 4) return null;
+      value = view.getUint32(offset, littleEndian);
+      invalid = 0;
+      break;
+    default:
+      return null;
+  }
+
+  return value === invalid ? null : value;
+}
+
+// Decodes every data message in a FIT file, checking both CRCs. Throws on
+// anything malformed.
+export function decodeFit(bytes: Uint8Array): FitMessage[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 14) throw new Error("FIT file is too short.");
+
+  const headerSize = view.getUint8(0);
+  if (headerSize !== 12 && headerSize !== 14) {
+    throw new Error(`Unexpected FIT header size ${headerSize}.`);
+  }
+  if (String.fromCharCode(...bytes.subarray(8, 12)) !== ".FIT") {
+    throw new Error("Missing .FIT signature.");
+  }
+  if (headerSize === 14) {
+    const headerCrc = view.getUint16(12, true);
+    if (headerCrc !== 0 && headerCrc !== fitCrc(bytes, 0, 12)) {
+      throw new Error("FIT header CRC mismatch.");
+    }
+  }
+
+  const dataSize = view.getUint32(4, true);
+  const dataEnd = headerSize + dataSize;
+  if (bytes.length < dataEnd + 2) throw new Error("FIT file is truncated.");
+  if (view.getUint16(dataEnd, true) !== fitCrc(bytes, 0, dataEnd)) {
+    throw new Error("FIT file CRC mismatch.");
+  }
+
+  type Definition = {
+    global: number;
+    littleEndian: boolean;
+    fields: Array<{ num: number; size: number; baseType: number }>;
+    developerBytes: number;
+  };
+  const definitions = new Map<number, Definition>();
+  const messages: FitMessage[] = [];
+  let offset = headerSize;
+
+  while (offset < dataEnd) {
+    const header = view.getUint8(offset++);
+    const isCompressedTimestamp = (header & 0x80) !== 0;
+    const local = isCompressedTimestamp ? (header >> 5) & 0x03 : header & 0x0f;
+
+    if (!isCompressedTimestamp && header & 0x40) {
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const global = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+      const fields = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          num: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+      let developerBytes = 0;
+      if (header & 0x20) {
+        const developerCount = view.getUint8(offset++);
+        for (let i = 0; i < developerCount; i++) {
+          developerBytes += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+      definitions.set(local, { global, littleEndian, fields, developerBytes });
+      continue;
+    }
+
+    const definition = definitions.get(local);
+    if (!definition) throw new Error(`FIT data message ${local} has no definition.`);
+
+    const fields: Record<number, FitValue> = {};
+    for (const field of definition.fields) {
+      const value = readValue(view, offset, field.size, field.baseType, definition.littleEndian);
+      if (value !== null) fields[field.num] = value;
+      offset += field.size;
+    }
+    offset += definition.developerBytes;
+    messages.push({ global: definition.global, fields });
+  }
+
+  return messages;
+}
+
+function fromSemicircles(value: FitValue | undefined) {
+  return typeof value === "number" ? value / SEMICIRCLES_PER_DEGREE : NaN;
+}
+
+// Pulls the course back out of a FIT file, in degrees and meters.
+export function decodeFitCourse(bytes: Uint8Array): FitCourse {
+  const messages = decodeFit(bytes);
+  const course = messages.find((message) => message.global === MESG.course);
+  const lap = messages.find((message) => message.global === MESG.lap);
+
+  return {
+    name: typeof course?.fields[5] === "string" ? course.fields[5] : "",
+    sport: typeof course?.fields[4] === "number" ? course.fields[4] : null,
+    totalDistance: typeof lap?.fields[9] === "number" ? lap.fields[9] / 100 : null,
+    records: messages
+      .filter((message) => message.global === MESG.record)
+      .map((message) => ({
+        lat: fromSemicircles(message.fields[0]),
+        lon: fromSemicircles(message.fields[1]),
+        distance: Number(message.fields[5]) / 100,
+        timestamp: new Date((Number(message.fields[253]) + FIT_EPOCH_S) * 1000),
+      })),
+    coursePoints: messages
+      .filter((message) => message.global === MESG.coursePoint)
+      .map((message) => ({
+        lat: fromSemicircles(message.fields[2]),
+        lon: fromSemicircles(message.fields[3]),
+        distance: Number(message.fields[4]) / 100,
+        type: Number(message.fields[5]),
+        name: typeof message.fields[6] === "string" ? message.fields[6] : "",
+      })),
+  };
+}
+
+export function validateFitCourseMatchesRoute(
+  fit: Uint8Array,
+  route: RouteInput,
+  options: { epsilon?: number; tupleOrder?: TupleOrder } = {}
+): ValidationResult {
+  let course: FitCourse;
+  try {
+    course = decodeFitCourse(fit);
+  } catch (err) {
+    return { ok: false, reason: err instanceof Error ? err.message : "Unreadable FIT file." };
+  }
+
+  const expected = normalizeRoutePoints(route, options.tupleOrder, "FIT");
+  const actual = course.records;
+  // Semicircles resolve to about 1e-7 degrees.
+  const epsilon = options.epsilon ?? 1e-6;
+
+  if (actual.length !== expected.length) {
+    return {
+      ok: false,
+      reason: `Point count mismatch (expected ${expected.length}, got ${actual.length}).`,
+    };
+  }
+
+  const approxEqual = (a: number, b: number) => Math.abs(a - b) <= epsilon;
+  const first = actual[0];
+  const last = actual[actual.length - 1];
+  const expectedLast = expected[expected.length - 1];
+
+  if (!approxEqual(expected[0].lat, first.lat) || !approxEqual(expected[0].lon, first.lon)) {
+    return { ok: false, reason: "First FIT record does not match the route start." };
+  }
+  if (!approxEqual(expectedLast.lat, last.lat) || !approxEqual(expectedLast.lon, last.lon)) {
+    return { ok: false, reason: "Last FIT record does not match the route end." };
+  }
+
+  for (let i = 1; i < actual.length; i++) {
+    if (actual[i].distance < actual[i - 1].distance) {
+      return { ok: false, reason: `FIT distance goes backwards at record ${i + 1}.` };
+    }
+  }
+
+  if (course.totalDistance === null || Math.abs(course.totalDistance - last.distance) > 1) {
+    return { ok: false, reason: "FIT lap distance does not match the last record." };
+  }
+
+  return { ok: true };
+}
@@ -1,98 +1,151 @@
-type LngLatTuple = [number, number];
-type LatLngPoint = { lat: number; lng: number };
-
-type RouteInput =
-  | GeoJSON.Feature<GeoJSON.LineString>
-  | GeoJSON.LineString
-  | Array<LngLatTuple | LatLngPoint>;
+import { matchCuesToTrack, type CueStep, type MatchedCue } from "./cues";
+import {
+  cumulativeDistances,
+  escapeXml,
+  formatCoord,
+  isFiniteNumber,
+  normalizeRoutePoints,
+  type LatLngPoint,
+  type RouteInput,
+  type TrackPoint,
+  type TupleOrder,
+  type ValidationResult,
+} from "./points";
+
+type GpxWaypoint = LatLngPoint & { name?: string };
 
 type RouteToGpxOptions = {
   name?: string;
   description?: string;
   creator?: string;
+  link?: { href: string; text?: string };
+  // Written to <metadata>; defaults to now.
+  createdAt?: string | Date;
+  waypoints?: GpxWaypoint[];
+  // Turn cues, written as <wpt> entries and, with `includeRoute`, as an <rte>.
+  steps?: CueStep[];
+  includeRoute?: boolean;
   timestamps?: Array<string | Date>;
-  tupleOrder?: "lnglat" | "latlng";
+  // Times every point at a steady pace from `startTime` when `timestamps`
+  // isn't given, which lets watches race a virtual partner against the plan.
+  paceSecondsPerKm?: number;
+  startTime?: string | Date;
+  tupleOrder?: TupleOrder;
 };
 
-type GpxTrackPoint = {
-  lat: number;
-  lon: number;
+type GpxPoint = TrackPoint & { time: string | null; type: string | null };
+
+type GpxTrack = {
+  route: RouteInput;
+  name: string;
+  description?: string;
 };
 
-function escapeXml(value: string) {
-  return value
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&apos;");
+function formatTimestamp(value: string | Date) {
+  const date = value instanceof Date ? value : new Date(value);
+  if (!Number.isFinite(date.getTime())) {
+    throw new Error("Invalid timestamp provided for GPX export.");
+  }
+  return date.toISOString();
 }
 
-function isFiniteNumber(value: unknown): value is number {
-  return typeof value === "number" && Number.isFinite(value);
+function paceTimestamps(points: TrackPoint[], paceSecondsPerKm: number, startTime: string | Date) {
+  if (!isFiniteNumber(paceSecondsPerKm) || paceSecondsPerKm <= 0) {
+    throw new Error("GPX pace must be a positive number of seconds per km.");
+  }
+  const start = new Date(formatTimestamp(startTime)).getTime();
+  return cumulativeDistances(points).map(
+    (meters) => new Date(start + (meters / 1000) * paceSecondsPerKm * 1000)
+  );
 }
 
-function normalizeTuple(
-  tuple: LngLatTuple,
-  tupleOrder: "lnglat" | "latlng"
-): GpxTrackPoint {
-  const [a, b] = tuple;
-  const lon = tupleOrder === "lnglat" ? a : b;
-  const lat = tupleOrder === "lnglat" ? b : a;
-  return { lat, lon };
+function boundsXml(points: TrackPoint[]) {
+  const lats = points.map((point) => point.lat);
+  const lons = points.map((point) => point.lon);
+  return `<bounds minlat="${formatCoord(Math.min(...lats))}" minlon="${formatCoord(Math.min(...lons))}" maxlat="${formatCoord(Math.max(...lats))}" maxlon="${formatCoord(Math.max(...lons))}"/>`;
 }
 
-function normalizeRoutePoints(
-  route: RouteInput,
-  tupleOrder: "lnglat" | "latlng" = "lnglat"
-): GpxTrackPoint[] {
-  let rawPoints: Array<LngLatTuple | LatLngPoint>;
-  let effectiveTupleOrder = tupleOrder;
-
-  if (Array.isArray(route)) {
-    rawPoints = route;
-  } else if ("geometry" in route) {
-    rawPoints = route.geometry.coordinates as LngLatTuple[];
-    effectiveTupleOrder = "lnglat";
-  } else {
-    rawPoints = route.coordinates as LngLatTuple[];
-    effectiveTupleOrder = "lnglat";
-  }
-
-  const points = rawPoints.map((point) => {
-    if (Array.isArray(point)) {
-      return normalizeTuple(point, effectiveTupleOrder);
-    }
+function buildMetadataXml(
+  name: string,
+  options: Pick<RouteToGpxOptions, "description" | "link" | "createdAt">,
+  points: TrackPoint[]
+) {
+  const descXml = options.description ? `<desc>${escapeXml(options.description)}</desc>` : "";
+  const linkXml = options.link
+    ? `<link href="${escapeXml(options.link.href)}">${
+        options.link.text ? `<text>${escapeXml(options.link.text)}</text>` : ""
+      }</link>`
+    : "";
+  const timeXml = `<time>${formatTimestamp(options.createdAt ?? new Date())}</time>`;
 
-    return { lat: point.lat, lon: point.lng };
-  });
+  return `<metadata><name>${escapeXml(name)}</name>${descXml}${linkXml}${timeXml}${boundsXml(points)}</metadata>`;
+}
 
-  for (const point of points) {
-    if (!isFiniteNumber(point.lat) || !isFiniteNumber(point.lon)) {
-      throw new Error("Route contains invalid coordinates.");
-    }
-    if (point.lat < -90 || point.lat > 90 || point.lon < -180 || point.lon > 180) {
-      throw new Error("Route contains coordinates outside WGS84 bounds.");
-    }
-  }
+function cueWaypointXml(
+  tag: "wpt" | "rtept",
+  point: TrackPoint,
+  name: string,
+  options: { description?: string; type?: string; time?: string | Date }
+) {
+  const timeXml = options.time ? `<time>${formatTimestamp(options.time)}</time>` : "";
+  const descXml = options.description ? `<desc>${escapeXml(options.description)}</desc>` : "";
+  const typeXml = options.type ? `<type>${escapeXml(options.type)}</type>` : "";
+  return `<${tag} lat="${formatCoord(point.lat)}" lon="${formatCoord(point.lon)}">${timeXml}<name>${escapeXml(name)}</name>${descXml}${typeXml}</${tag}>`;
+}
 
-  if (points.length < 2) {
-    throw new Error("Route must contain at least 2 points to export GPX.");
-  }
+// A turn-by-turn <rte>: the start, every cue and the finish.
+function buildRouteXml(
+  points: TrackPoint[],
+  cues: MatchedCue[],
+  name: string,
+  timestamps?: Array<string | Date>
+) {
+  const lastIndex = points.length - 1;
+  const stops = [
+    ...(cues[0]?.index === 0 ? [] : [{ index: 0, name: "Start", kind: "start", instruction: "" }]),
+    ...cues,
+    ...(cues[cues.length - 1]?.index === lastIndex
+      ? []
+      : [{ index: lastIndex, name: "Finish", kind: "finish", instruction: "" }]),
+  ];
+  const routePointsXml = stops
+    .map((stop) =>
+      cueWaypointXml("rtept", points[stop.index], stop.name, {
+        description: stop.instruction || undefined,
+        type: stop.kind,
+        time: timestamps?.[stop.index],
+      })
+    )
+    .join("");
 
-  return points;
+  return `<rte>
+    <name>${escapeXml(name)}</name>
+    ${routePointsXml}
+  </rte>`;
 }
 
-function formatTimestamp(value: string | Date) {
-  const date = value instanceof Date ? value : new Date(value);
-  if (!Number.isFinite(date.getTime())) {
-    throw new Error("Invalid timestamp provided for GPX export.");
-  }
-  return date.toISOString();
-}
+function buildTrackXml(
+  points: TrackPoint[],
+  name: string,
+  description?: string,
+  timestamps?: Array<string | Date>
+) {
+  const trackPointsXml = points
+    .map((point, idx) => {
+      const timeXml = timestamps
+        ? `<time>${formatTimestamp(timestamps[idx])}</time>`
+        : "";
+      return `<trkpt lat="${formatCoord(point.lat)}" lon="${formatCoord(point.lon)}">${timeXml}</trkpt>`;
+    })
+    .join("");
 
-function formatCoord(value: number) {
-  return value.toFixed(6);
+  const descXml = description ? `<desc>${escapeXml(description)}</desc>` : "";
+
+  return `<trk>
+    <name>${escapeXml(name)}</name>
+    ${descXml}
+    <trkseg>${trackPointsXml}</trkseg>
+  </trk>`;
 }
 
 export function routeToGpx(
@@ -102,38 +155,76 @@ export function routeToGpx(
   const points = normalizeRoutePoints(route, options.tupleOrder);
   const name = options.name ?? "Run Routr Route";
   const creator = options.creator ?? "Run Routr";
-  const timestamps = options.timestamps;
+  const timestamps =
+    options.timestamps ??
+    (options.paceSecondsPerKm !== undefined
+      ? paceTimestamps(points, options.paceSecondsPerKm, options.startTime ?? new Date())
+      : undefined);
 
   if (timestamps && timestamps.length !== points.length) {
     throw new Error("GPX timestamps must match the number of route points.");
   }
 
-  const trackPointsXml = points
-    .map((point, idx) => {
-      const timeXml = timestamps
-        ? `<time>${formatTimestamp(timestamps[idx])}</time>`
-        : "";
-      return `<trkpt lat="${formatCoord(point.lat)}" lon="${formatCoord(point.lon)}">${timeXml}</trkpt>`;
+  const cues = matchCuesToTrack(points, options.steps ?? []);
+
+  const waypointsXml = (options.waypoints ?? [])
+    .map((waypoint) => {
+      if (!isFiniteNumber(waypoint.lat) || !isFiniteNumber(waypoint.lng)) {
+        throw new Error("GPX waypoint has invalid coordinates.");
+      }
+      const nameXml = waypoint.name ? `<name>${escapeXml(waypoint.name)}</name>` : "";
+      return `<wpt lat="${formatCoord(waypoint.lat)}" lon="${formatCoord(waypoint.lng)}">${nameXml}</wpt>`;
     })
     .join("");
+  const cueWaypointsXml = cues
+    .map((cue) =>
+      cueWaypointXml("wpt", points[cue.index], cue.name, {
+        description: cue.instruction,
+        type: cue.kind,
+        time: timestamps?.[cue.index],
+      })
+    )
+    .join("");
+  const routeXml = options.includeRoute ? buildRouteXml(points, cues, name, timestamps) : "";
+  const boundedPoints = [
+    ...points,
+    ...(options.waypoints ?? []).map((waypoint) => ({ lat: waypoint.lat, lon: waypoint.lng })),
+  ];
 
-  const descXml = options.description
-    ? `<desc>${escapeXml(options.description)}</desc>`
-    : "";
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="${escapeXml(creator)}" xmlns="http://www.topografix.com/GPX/1/1">
+  ${buildMetadataXml(name, options, boundedPoints)}
+  ${waypointsXml}${cueWaypointsXml}
+  ${routeXml}
+  ${buildTrackXml(points, name, options.description, timestamps)}
+</gpx>
+`;
+}
+
+// Several routes in one file, one <trk> each, for exporting a whole library.
+export function routesToGpx(
+  tracks: GpxTrack[],
+  options: { creator?: string } = {}
+): string {
+  if (tracks.length === 0) {
+    throw new Error("Pick at least one route to export.");
+  }
+  const creator = options.creator ?? "Run Routr";
+  const tracksXml = tracks
+    .map((track) =>
+      buildTrackXml(normalizeRoutePoints(track.route), track.name, track.description)
+    )
+    .join("\n  ");
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <gpx version="1.1" creator="${escapeXml(creator)}" xmlns="http://www.topografix.com/GPX/1/1">
-  <trk>
-    <name>${escapeXml(name)}</name>
-    ${descXml}
-    <trkseg>${trackPointsXml}</trkseg>
-  </trk>
+  ${tracksXml}
 </gpx>
 `;
 }
 
-export function extractTrackPointsFromGpx(gpx: string): GpxTrackPoint[] {
-  const points: GpxTrackPoint[] = [];
+export function extractTrackPointsFromGpx(gpx: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
   const trkptRegex = /<trkpt\b[^>]*lat="([^"]+)"[^>]*lon="([^"]+)"[^>]*>/g;
 
   let match: RegExpExecArray | null;
@@ -147,15 +238,46 @@ export function extractTrackPointsFromGpx(gpx: string): GpxTrackPoint[] {
   return points;
 }
 
-type ValidationResult = {
-  ok: boolean;
-  reason?: string;
-};
+// Every <wpt>, <rtept> or <trkpt> with its time and type, in file order.
+// Points with unreadable coordinates come back as NaN so they can be flagged.
+function extractGpxPoints(gpx: string, tag: "wpt" | "rtept" | "trkpt"): GpxPoint[] {
+  const points: GpxPoint[] = [];
+  const pointRegex = new RegExp(
+    `<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`,
+    "g"
+  );
+
+  let match: RegExpExecArray | null;
+  while ((match = pointRegex.exec(gpx)) !== null) {
+    const body = match[2] ?? "";
+    points.push({
+      lat: Number(/\blat="([^"]+)"/.exec(match[1])?.[1]),
+      lon: Number(/\blon="([^"]+)"/.exec(match[1])?.[1]),
+      time: /<time>([^<]*)<\/time>/.exec(body)?.[1] ?? null,
+      type: /<type>([^<]*)<\/type>/.exec(body)?.[1] ?? null,
+    });
+  }
+
+  return points;
+}
+
+function readBounds(gpx: string) {
+  const tag = /<metadata>[\s\S]*?(<bounds\b[^>]*>)[\s\S]*?<\/metadata>/.exec(gpx)?.[1];
+  if (!tag) return null;
+  const read = (attribute: string) =>
+    Number(new RegExp(`\\b${attribute}="([^"]+)"`).exec(tag)?.[1]);
+  return {
+    minLat: read("minlat"),
+    minLon: read("minlon"),
+    maxLat: read("maxlat"),
+    maxLon: read("maxlon"),
+  };
+}
 
 export function validateGpxTrackMatchesRoute(
   gpx: string,
   route: RouteInput,
-  options: { epsilon?: number; tupleOrder?: "lnglat" | "latlng" } = {}
+  options: { epsilon?: number; tupleOrder?: TupleOrder } = {}
 ): ValidationResult {
   const expected = normalizeRoutePoints(route, options.tupleOrder);
   const actual = extractTrackPointsFromGpx(gpx);
@@ -189,6 +311,72 @@ export function validateGpxTrackMatchesRoute(
     return { ok: false, reason: "Last GPX point does not match the route end." };
   }
 
+  const trackPoints = extractGpxPoints(gpx, "trkpt");
+  const timedCount = trackPoints.filter((point) => point.time !== null).length;
+  if (timedCount > 0) {
+    if (timedCount !== trackPoints.length) {
+      return { ok: false, reason: "Only some GPX track points have timestamps." };
+    }
+    let previous = -Infinity;
+    for (let i = 0; i < trackPoints.length; i++) {
+      const time = Date.parse(trackPoints[i].time ?? "");
+      if (!Number.isFinite(time)) {
+        return { ok: false, reason: `GPX point ${i + 1} has an invalid timestamp.` };
+      }
+      if (time < previous) {
+        return { ok: false, reason: `GPX time goes backwards at point ${i + 1}.` };
+      }
+      previous = time;
+    }
+  }
+
+  const waypoints = extractGpxPoints(gpx, "wpt");
+  if (waypoints.some((point) => !isFiniteNumber(point.lat) || !isFiniteNumber(point.lon))) {
+    return { ok: false, reason: "GPX waypoint has invalid coordinates." };
+  }
+  // Cue waypoints are pinned to the track, so each should sit on a track point.
+  const isOnTrack = (point: TrackPoint) =>
+    actual.some(
+      (trackPoint) =>
+        approxEqual(trackPoint.lat, point.lat) && approxEqual(trackPoint.lon, point.lon)
+    );
+  const offTrackCue = waypoints.find((point) => point.type !== null && !isOnTrack(point));
+  if (offTrackCue) {
+    return { ok: false, reason: `GPX cue "${offTrackCue.type}" is not on the track.` };
+  }
+
+  const bounds = readBounds(gpx);
+  if (bounds) {
+    const outside = [...actual, ...waypoints].some(
+      (point) =>
+        point.lat < bounds.minLat - epsilon ||
+        point.lat > bounds.maxLat + epsilon ||
+        point.lon < bounds.minLon - epsilon ||
+        point.lon > bounds.maxLon + epsilon
+    );
+    // NaN bounds fail every comparison, so check them separately.
+    if (outside || !Object.values(bounds).every(isFiniteNumber)) {
+      return { ok: false, reason: "GPX metadata bounds do not contain the route." };
+    }
+  }
+
+  if (gpx.includes("<rte>")) {
+    const routePoints = extractGpxPoints(gpx, "rtept");
+    if (routePoints.length < 2) {
+      return { ok: false, reason: "GPX route needs at least 2 route points." };
+    }
+    const firstRoutePoint = routePoints[0];
+    const lastRoutePoint = routePoints[routePoints.length - 1];
+    if (
+      !approxEqual(firstExpected.lat, firstRoutePoint.lat) ||
+      !approxEqual(firstExpected.lon, firstRoutePoint.lon) ||
+      !approxEqual(lastExpected.lat, lastRoutePoint.lat) ||
+      !approxEqual(lastExpected.lon, lastRoutePoint.lon)
+    ) {
+      return { ok: false, reason: "GPX route does not start and end with the track." };
+    }
+  }
+
   return { ok: true };
 }
 
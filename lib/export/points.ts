@@ -0,0 +1,101 @@
+import { distanceMeters } from "../routing/geo";
+
+export type LngLatTuple = [number, number];
+export type LatLngPoint = { lat: number; lng: number };
+
+export type RouteInput =
+  | GeoJSON.Feature<GeoJSON.LineString>
+  | GeoJSON.LineString
+  | Array<LngLatTuple | LatLngPoint>;
+
+export type TupleOrder = "lnglat" | "latlng";
+
+export type TrackPoint = {
+  lat: number;
+  lon: number;
+};
+
+export type ValidationResult = {
+  ok: boolean;
+  reason?: string;
+};
+
+export function escapeXml(value: string) {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function formatCoord(value: number) {
+  return value.toFixed(6);
+}
+
+function normalizeTuple(tuple: LngLatTuple, tupleOrder: TupleOrder): TrackPoint {
+  const [a, b] = tuple;
+  const lon = tupleOrder === "lnglat" ? a : b;
+  const lat = tupleOrder === "lnglat" ? b : a;
+  return { lat, lon };
+}
+
+// Checks and flattens any of the accepted route shapes; `format` names the
+// export in error messages.
+export function normalizeRoutePoints(
+  route: RouteInput,
+  tupleOrder: TupleOrder = "lnglat",
+  format = "GPX"
+): TrackPoint[] {
+  let rawPoints: Array<LngLatTuple | LatLngPoint>;
+  let effectiveTupleOrder = tupleOrder;
+
+  if (Array.isArray(route)) {
+    rawPoints = route;
+  } else if ("geometry" in route) {
+    rawPoints = route.geometry.coordinates as LngLatTuple[];
+    effectiveTupleOrder = "lnglat";
+  } else {
+    rawPoints = route.coordinates as LngLatTuple[];
+    effectiveTupleOrder = "lnglat";
+  }
+
+  const points = rawPoints.map((point) => {
+    if (Array.isArray(point)) {
+      return normalizeTuple(point, effectiveTupleOrder);
+    }
+
+    return { lat: point.lat, lon: point.lng };
+  });
+
+  for (const point of points) {
+    if (!isFiniteNumber(point.lat) || !isFiniteNumber(point.lon)) {
+      throw new Error("Route contains invalid coordinates.");
+    }
+    if (point.lat < -90 || point.lat > 90 || point.lon < -180 || point.lon > 180) {
+      throw new Error("Route contains coordinates outside WGS84 bounds.");
+    }
+  }
+
+  if (points.length < 2) {
+    throw new Error(`Route must contain at least 2 points to export ${format}.`);
+  }
+
+  return points;
+}
+
+// Distance from the first point to each point along the line, in meters.
+export function cumulativeDistances(points: TrackPoint[]) {
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(
+      distances[i - 1] +
+        distanceMeters([points[i - 1].lon, points[i - 1].lat], [points[i].lon, points[i].lat])
+    );
+  }
+  return distances;
+}
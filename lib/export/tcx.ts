@@ -0,0 +1,220 @@
+import { DEFAULT_PACE_S_PER_KM } from "../routing/pace";
+import { matchCuesToTrack, type CueKind, type CueStep } from "./cues";
+import {
+  cumulativeDistances,
+  escapeXml,
+  formatCoord,
+  isFiniteNumber,
+  normalizeRoutePoints,
+  type RouteInput,
+  type TrackPoint,
+  type TupleOrder,
+  type ValidationResult,
+} from "./points";
+
+type RouteToTcxOptions = {
+  name?: string;
+  steps?: CueStep[];
+  // Expected moving time; course point times are spread evenly over it.
+  durationSeconds?: number;
+  startTime?: string | Date;
+  tupleOrder?: TupleOrder;
+};
+
+type TcxTrackPoint = TrackPoint & { distance: number };
+
+type TcxCoursePoint = TrackPoint & {
+  name: string;
+  pointType: string;
+  notes: string;
+};
+
+// Garmin's schema caps course names at 15 characters and point names at 10.
+const MAX_COURSE_NAME_LENGTH = 15;
+const MAX_POINT_NAME_LENGTH = 10;
+const MAX_NOTES_LENGTH = 64;
+
+const TCX_POINT_TYPES: Record<CueKind, string> = {
+  left: "Left",
+  slight_left: "Left",
+  sharp_left: "Left",
+  right: "Right",
+  slight_right: "Right",
+  sharp_right: "Right",
+  straight: "Straight",
+  u_turn: "Generic",
+  finish: "Generic",
+  generic: "Generic",
+};
+
+const POINT_TYPES = new Set([
+  "Generic",
+  "Summit",
+  "Valley",
+  "Water",
+  "Food",
+  "Danger",
+  "Left",
+  "Right",
+  "Straight",
+  "First Aid",
+  "4th Category",
+  "3rd Category",
+  "2nd Category",
+  "1st Category",
+  "Hors Category",
+  "Sprint",
+]);
+
+function truncate(value: string, maxLength: number) {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1).trimEnd()}…` : value;
+}
+
+function positionXml(point: TrackPoint) {
+  return `<Position><LatitudeDegrees>${formatCoord(point.lat)}</LatitudeDegrees><LongitudeDegrees>${formatCoord(point.lon)}</LongitudeDegrees></Position>`;
+}
+
+// Writes a TCX Course: the line with cumulative distances plus one
+// CoursePoint per turn, which Garmin and Wahoo devices show as turn alerts.
+export function routeToTcx(route: RouteInput, options: RouteToTcxOptions = {}): string {
+  const points = normalizeRoutePoints(route, options.tupleOrder, "TCX");
+  const distances = cumulativeDistances(points);
+  const totalMeters = distances[distances.length - 1];
+  const durationSeconds =
+    options.durationSeconds !== undefined && options.durationSeconds > 0
+      ? options.durationSeconds
+      : (totalMeters / 1000) * DEFAULT_PACE_S_PER_KM;
+  const startTime = new Date(options.startTime ?? Date.now());
+  if (!Number.isFinite(startTime.getTime())) {
+    throw new Error("Invalid start time provided for TCX export.");
+  }
+
+  const timeAt = (meters: number) => {
+    const seconds = totalMeters > 0 ? (meters / totalMeters) * durationSeconds : 0;
+    return new Date(startTime.getTime() + seconds * 1000).toISOString();
+  };
+
+  const trackXml = points
+    .map(
+      (point, idx) =>
+        `<Trackpoint><Time>${timeAt(distances[idx])}</Time>${positionXml(point)}<DistanceMeters>${distances[idx].toFixed(1)}</DistanceMeters></Trackpoint>`
+    )
+    .join("");
+
+  const coursePointsXml = matchCuesToTrack(points, options.steps ?? [])
+    .map((cue) => {
+      const notes = truncate(cue.instruction, MAX_NOTES_LENGTH);
+      return `<CoursePoint><Name>${escapeXml(truncate(cue.name, MAX_POINT_NAME_LENGTH))}</Name><Time>${timeAt(distances[cue.index])}</Time>${positionXml(points[cue.index])}<PointType>${TCX_POINT_TYPES[cue.kind]}</PointType><Notes>${escapeXml(notes)}</Notes></CoursePoint>`;
+    })
+    .join("");
+
+  const name = (options.name ?? "Run Routr").slice(0, MAX_COURSE_NAME_LENGTH).trimEnd();
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">
+  <Courses>
+    <Course>
+      <Name>${escapeXml(name)}</Name>
+      <Lap>
+        <TotalTimeSeconds>${durationSeconds.toFixed(0)}</TotalTimeSeconds>
+        <DistanceMeters>${totalMeters.toFixed(1)}</DistanceMeters>
+        <BeginPosition><LatitudeDegrees>${formatCoord(first.lat)}</LatitudeDegrees><LongitudeDegrees>${formatCoord(first.lon)}</LongitudeDegrees></BeginPosition>
+        <EndPosition><LatitudeDegrees>${formatCoord(last.lat)}</LatitudeDegrees><LongitudeDegrees>${formatCoord(last.lon)}</LongitudeDegrees></EndPosition>
+        <Intensity>Active</Intensity>
+      </Lap>
+      <Track>${trackXml}</Track>
+      ${coursePointsXml}
+    </Course>
+  </Courses>
+</TrainingCenterDatabase>
+`;
+}
+
+function readPosition(xml: string): TrackPoint | null {
+  const lat = Number(/<LatitudeDegrees>([^<]+)<\/LatitudeDegrees>/.exec(xml)?.[1]);
+  const lon = Number(/<LongitudeDegrees>([^<]+)<\/LongitudeDegrees>/.exec(xml)?.[1]);
+  return isFiniteNumber(lat) && isFiniteNumber(lon) ? { lat, lon } : null;
+}
+
+export function extractTrackPointsFromTcx(tcx: string): TcxTrackPoint[] {
+  const points: TcxTrackPoint[] = [];
+  const trackpointRegex = /<Trackpoint>([\s\S]*?)<\/Trackpoint>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = trackpointRegex.exec(tcx)) !== null) {
+    const position = readPosition(match[1]);
+    const distance = Number(/<DistanceMeters>([^<]+)<\/DistanceMeters>/.exec(match[1])?.[1]);
+    if (!position || !isFiniteNumber(distance)) continue;
+    points.push({ ...position, distance });
+  }
+
+  return points;
+}
+
+export function extractCoursePointsFromTcx(tcx: string): TcxCoursePoint[] {
+  const coursePoints: TcxCoursePoint[] = [];
+  const coursePointRegex = /<CoursePoint>([\s\S]*?)<\/CoursePoint>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = coursePointRegex.exec(tcx)) !== null) {
+    const position = readPosition(match[1]);
+    if (!position) continue;
+    coursePoints.push({
+      ...position,
+      name: /<Name>([^<]*)<\/Name>/.exec(match[1])?.[1] ?? "",
+      pointType: /<PointType>([^<]*)<\/PointType>/.exec(match[1])?.[1] ?? "",
+      notes: /<Notes>([^<]*)<\/Notes>/.exec(match[1])?.[1] ?? "",
+    });
+  }
+
+  return coursePoints;
+}
+
+export function validateTcxCourseMatchesRoute(
+  tcx: string,
+  route: RouteInput,
+  options: { epsilon?: number; tupleOrder?: TupleOrder } = {}
+): ValidationResult {
+  const expected = normalizeRoutePoints(route, options.tupleOrder, "TCX");
+  const actual = extractTrackPointsFromTcx(tcx);
+  const epsilon = options.epsilon ?? 1e-6;
+
+  if (actual.length !== expected.length) {
+    return {
+      ok: false,
+      reason: `Point count mismatch (expected ${expected.length}, got ${actual.length}).`,
+    };
+  }
+
+  const approxEqual = (a: number, b: number) => Math.abs(a - b) <= epsilon;
+  const first = actual[0];
+  const last = actual[actual.length - 1];
+
+  if (!approxEqual(expected[0].lat, first.lat) || !approxEqual(expected[0].lon, first.lon)) {
+    return { ok: false, reason: "First TCX point does not match the route start." };
+  }
+
+  const expectedLast = expected[expected.length - 1];
+  if (!approxEqual(expectedLast.lat, last.lat) || !approxEqual(expectedLast.lon, last.lon)) {
+    return { ok: false, reason: "Last TCX point does not match the route end." };
+  }
+
+  for (let i = 1; i < actual.length; i++) {
+    if (actual[i].distance < actual[i - 1].distance) {
+      return { ok: false, reason: `TCX distance goes backwards at point ${i + 1}.` };
+    }
+  }
+
+  for (const coursePoint of extractCoursePointsFromTcx(tcx)) {
+    if (!POINT_TYPES.has(coursePoint.pointType)) {
+      return { ok: false, reason: `Unknown course point type "${coursePoint.pointType}".` };
+    }
+    if (!coursePoint.name || coursePoint.name.length > MAX_POINT_NAME_LENGTH) {
+      return { ok: false, reason: `Course point name "${coursePoint.name}" is not 1-10 characters.` };
+    }
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,17 @@
+import type { GeocodeResult } from "./types";
+
+// Accepts "49.2827, -123.1207" style input so a pasted coordinate works with
+// any geocoder, including offline.
+export function parseCoordinateQuery(query: string): GeocodeResult | null {
+  const match = query
+    .trim()
+    .match(/^(-?\d{1,2}(?:\.\d+)?)\s*[,\s]\s*(-?\d{1,3}(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  const label = `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+  return { id: `coords:${label}`, name: label, place_name: "Coordinates", lat, lng };
+}
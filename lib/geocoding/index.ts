@@ -0,0 +1,34 @@
+import path from "node:path";
+import { createLocalGeocoder } from "./local";
+import { createMapboxGeocoder } from "./mapbox";
+import type { Geocoder } from "./types";
+
+type GeocoderConfigResult =
+  | { ok: true; geocoder: Geocoder }
+  | { ok: false; reason: string };
+
+// Picks the geocoder from environment variables:
+//   GEOCODER=mapbox|local (default mapbox)
+//   GEOCODER_PLACES_PATH points the local geocoder at a JSON list of places.
+export function getGeocoder(env: NodeJS.ProcessEnv = process.env): GeocoderConfigResult {
+  const geocoderName = (env.GEOCODER || "mapbox").trim().toLowerCase();
+
+  switch (geocoderName) {
+    case "mapbox": {
+      const token = env.MAPBOX_SECRET_TOKEN;
+      if (!token) return { ok: false, reason: "Missing MAPBOX_SECRET_TOKEN" };
+      return { ok: true, geocoder: createMapboxGeocoder({ token }) };
+    }
+    case "local":
+      return {
+        ok: true,
+        geocoder: createLocalGeocoder({
+          placesPath: path.resolve(
+            env.GEOCODER_PLACES_PATH || "fixtures/geocoding/places.json"
+          ),
+        }),
+      };
+    default:
+      return { ok: false, reason: `Unknown GEOCODER "${geocoderName}"` };
+  }
+}
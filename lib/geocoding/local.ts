@@ -0,0 +1,70 @@
+import { readFile } from "node:fs/promises";
+import { distanceMeters } from "@/lib/routing/geo";
+import type { GeocodeResult, Geocoder } from "./types";
+
+type LocalPlace = {
+  name: string;
+  lat: number;
+  lng: number;
+  place_name?: string;
+  aliases?: string[];
+};
+
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Offline stand-in: matches the query against a small JSON gazetteer of
+// named places. Every query word must appear in the name or an alias.
+export function createLocalGeocoder(config: { placesPath: string }): Geocoder {
+  let placesPromise: Promise<LocalPlace[]> | null = null;
+
+  const loadPlaces = async () => {
+    try {
+      const places = JSON.parse(await readFile(config.placesPath, "utf8"));
+      return Array.isArray(places) ? (places as LocalPlace[]) : [];
+    } catch (err) {
+      console.error("Could not load local geocoder places", err);
+      return [];
+    }
+  };
+
+  return {
+    name: "local",
+    async search(query, options = {}) {
+      placesPromise ??= loadPlaces();
+      const places = await placesPromise;
+      const words = normalize(query).split(" ").filter(Boolean);
+      if (words.length === 0) return [];
+
+      const matches = places.filter((place) => {
+        const haystack = normalize([place.name, ...(place.aliases ?? [])].join(" "));
+        return words.every((word) => haystack.includes(word));
+      });
+
+      const proximity = options.proximity;
+      if (proximity) {
+        const from: [number, number] = [proximity.lng, proximity.lat];
+        matches.sort(
+          (a, b) =>
+            distanceMeters(from, [a.lng, a.lat]) - distanceMeters(from, [b.lng, b.lat])
+        );
+      }
+
+      return matches.slice(0, options.limit ?? 5).map(
+        (place, idx): GeocodeResult => ({
+          id: `local:${idx}:${place.name}`,
+          name: place.name,
+          place_name: place.place_name ?? "",
+          lat: place.lat,
+          lng: place.lng,
+        })
+      );
+    },
+  };
+}
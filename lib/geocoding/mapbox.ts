@@ -0,0 +1,53 @@
+import type { GeocodeResult, Geocoder } from "./types";
+
+type MapboxGeocodeResponse = {
+  features?: Array<{
+    id?: string;
+    geometry?: { coordinates?: [number, number] };
+    properties?: {
+      mapbox_id?: string;
+      name?: string;
+      full_address?: string;
+      place_formatted?: string;
+    };
+  }>;
+};
+
+export function createMapboxGeocoder(config: { token: string }): Geocoder {
+  return {
+    name: "mapbox",
+    async search(query, options = {}) {
+      const params = new URLSearchParams({
+        q: query,
+        limit: String(options.limit ?? 5),
+        access_token: config.token,
+      });
+      if (options.proximity) {
+        params.set("proximity", `${options.proximity.lng},${options.proximity.lat}`);
+      }
+
+      const res = await fetch(
+        `https://api.mapbox.com/search/geocode/v6/forward?${params.toString()}`
+      );
+      if (!res.ok) throw new Error(`Geocoding API error: ${res.status}`);
+      const data = (await res.json()) as MapboxGeocodeResponse;
+
+      return (data.features ?? []).flatMap((feature): GeocodeResult[] => {
+        const coordinates = feature.geometry?.coordinates;
+        if (!coordinates) return [];
+        const [lng, lat] = coordinates;
+        if (!Number.isFinite(lng) || !Number.isFinite(lat)) return [];
+        const props = feature.properties ?? {};
+        return [
+          {
+            id: props.mapbox_id ?? feature.id ?? `${lng},${lat}`,
+            name: props.name ?? query,
+            place_name: props.full_address ?? props.place_formatted ?? "",
+            lat,
+            lng,
+          },
+        ];
+      });
+    },
+  };
+}
@@ -0,0 +1,17 @@
+export type GeocodeResult = {
+  id: string;
+  name: string;
+  place_name: string;
+  lat: number;
+  lng: number;
+};
+
+export type GeocodeOptions = {
+  proximity?: { lat: number; lng: number };
+  limit?: number;
+};
+
+export type Geocoder = {
+  name: string;
+  search(query: string, options?: GeocodeOptions): Promise<GeocodeResult[]>;
+};
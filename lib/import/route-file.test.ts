@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { LngLatTuple } from "../routing/types";
+import { MAX_IMPORT_POINTS, parseRouteFile } from "./route-file";
+
+function line(count: number): LngLatTuple[] {
+  return Array.from({ length: count }, (_, idx) => [-123.12 + idx * 1e-5, 49.28]);
+}
+
+function geoJson(coordinates: LngLatTuple[]) {
+  return JSON.stringify({ type: "LineString", coordinates });
+}
+
+describe("parseRouteFile", () => {
+  it("keeps short routes as they are", () => {
+    const coordinates = line(MAX_IMPORT_POINTS);
+    expect(parseRouteFile("run.geojson", geoJson(coordinates)).coordinates).toEqual(coordinates);
+  });
+
+  it.each([MAX_IMPORT_POINTS + 1, 9999, 10000, 10001, 25000])(
+    "thins %i points to within the limit, keeping both ends",
+    (count) => {
+      const coordinates = line(count);
+      const imported = parseRouteFile("run.geojson", geoJson(coordinates)).coordinates;
+      expect(imported.length).toBeLessThanOrEqual(MAX_IMPORT_POINTS);
+      expect(imported.length).toBeGreaterThan(MAX_IMPORT_POINTS / 2);
+      expect(imported[0]).toEqual(coordinates[0]);
+      expect(imported.at(-1)).toEqual(coordinates.at(-1));
+    }
+  );
+
+  it("reads the track name from a <trk> with attributes", () => {
+    const gpx = `<?xml version="1.0"?>
+<gpx version="1.1" creator="Watch">
+  <metadata><name>Export</name></metadata>
+  <trk id="1"><name>Sunday &amp; seawall</name><trkseg>
+    <trkpt lat="49.28" lon="-123.12"/><trkpt lat="49.29" lon="-123.11"/>
+  </trkseg></trk>
+</gpx>`;
+    expect(parseRouteFile("run.gpx", gpx).name).toBe("Sunday & seawall");
+  });
+});
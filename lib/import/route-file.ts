@@ -0,0 +1,174 @@
+import type { LngLatTuple } from "../routing/types";
+
+export type RouteFileFormat = "gpx" | "tcx" | "geojson";
+
+export type ImportedRoute = {
+  name: string;
+  format: RouteFileFormat;
+  coordinates: LngLatTuple[];
+};
+
+// Bigger files are almost always recorded activities with a point every
+// second; they still score fine once thinned out. /api/score takes no more.
+export const MAX_IMPORT_POINTS = 5000;
+
+function detectFormat(filename: string, text: string): RouteFileFormat | null {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "gpx" || extension === "tcx") return extension;
+  if (extension === "geojson" || extension === "json") return "geojson";
+
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith("{")) return "geojson";
+  if (head.includes("<gpx")) return "gpx";
+  if (head.includes("<TrainingCenterDatabase")) return "tcx";
+  return null;
+}
+
+function decodeXmlText(value: string) {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replaceAll("&lt;", "<")
+    .replaceAll("&gt;", ">")
+    .replaceAll("&quot;", '"')
+    .replaceAll("&apos;", "'")
+    .replaceAll("&amp;", "&")
+    .trim();
+}
+
+function readAttribute(tag: string, attribute: string) {
+  const match = new RegExp(`\\b${attribute}\\s*=\\s*["']([^"']+)["']`).exec(tag);
+  return match ? Number(match[1]) : NaN;
+}
+
+// Attribute order varies between apps, so lat and lon are read separately.
+function extractGpxPoints(gpx: string, tagName: "trkpt" | "rtept"): LngLatTuple[] {
+  const points: LngLatTuple[] = [];
+  const tagRegex = new RegExp(`<${tagName}\\b[^>]*>`, "g");
+
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(gpx)) !== null) {
+    const lat = readAttribute(match[0], "lat");
+    const lon = readAttribute(match[0], "lon");
+    if (Number.isFinite(lat) && Number.isFinite(lon)) points.push([lon, lat]);
+  }
+
+  return points;
+}
+
+function parseGpx(gpx: string) {
+  // Prefer the recorded track; fall back to a planned <rte>.
+  const trackPoints = extractGpxPoints(gpx, "trkpt");
+  const coordinates = trackPoints.length >= 2 ? trackPoints : extractGpxPoints(gpx, "rtept");
+  const nameMatch =
+    /<trk\b[^>]*>[\s\S]*?<name>([^<]*)<\/name>/.exec(gpx) ??
+    /<rte\b[^>]*>[\s\S]*?<name>([^<]*)<\/name>/.exec(gpx) ??
+    /<metadata>[\s\S]*?<name>([^<]*)<\/name>/.exec(gpx);
+  return { coordinates, name: nameMatch ? decodeXmlText(nameMatch[1]) : "" };
+}
+
+function parseTcx(tcx: string) {
+  const coordinates: LngLatTuple[] = [];
+  const trackpointRegex = /<Trackpoint>([\s\S]*?)<\/Trackpoint>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = trackpointRegex.exec(tcx)) !== null) {
+    const lat = Number(/<LatitudeDegrees>([^<]+)<\/LatitudeDegrees>/.exec(match[1])?.[1]);
+    const lon = Number(/<LongitudeDegrees>([^<]+)<\/LongitudeDegrees>/.exec(match[1])?.[1]);
+    // Trackpoints without a position (e.g. paused indoors) are skipped.
+    if (Number.isFinite(lat) && Number.isFinite(lon)) coordinates.push([lon, lat]);
+  }
+
+  const nameMatch = /<Course>\s*<Name>([^<]*)<\/Name>/.exec(tcx);
+  return { coordinates, name: nameMatch ? decodeXmlText(nameMatch[1]) : "" };
+}
+
+function isPosition(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === "number" &&
+    typeof value[1] === "number"
+  );
+}
+
+// Takes the first LineString (or MultiLineString, joined end to end) found in
+// a geometry, Feature or FeatureCollection.
+function findGeoJsonLine(value: unknown): { coordinates: LngLatTuple[]; name: string } | null {
+  if (!value || typeof value !== "object") return null;
+  const object = value as {
+    type?: unknown;
+    coordinates?: unknown;
+    geometry?: unknown;
+    features?: unknown;
+    properties?: { name?: unknown } | null;
+  };
+
+  if (object.type === "FeatureCollection" && Array.isArray(object.features)) {
+    for (const feature of object.features) {
+      const line = findGeoJsonLine(feature);
+      if (line) return line;
+    }
+    return null;
+  }
+
+  if (object.type === "Feature") {
+    const line = findGeoJsonLine(object.geometry);
+    const name = object.properties?.name;
+    return line ? { ...line, name: typeof name === "string" ? name : "" } : null;
+  }
+
+  if (object.type === "LineString" && Array.isArray(object.coordinates)) {
+    const positions = object.coordinates.filter(isPosition);
+    return { coordinates: positions.map(([lng, lat]): LngLatTuple => [lng, lat]), name: "" };
+  }
+
+  if (object.type === "MultiLineString" && Array.isArray(object.coordinates)) {
+    const positions = object.coordinates.flatMap((line: unknown) =>
+      Array.isArray(line) ? line.filter(isPosition) : []
+    );
+    return { coordinates: positions.map(([lng, lat]): LngLatTuple => [lng, lat]), name: "" };
+  }
+
+  return null;
+}
+
+function parseGeoJson(text: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  return findGeoJsonLine(parsed) ?? { coordinates: [], name: "" };
+}
+
+// Keeps every nth point (and always the last) to stay under the cap. The
+// stride leaves room for the last point on top of the evenly spaced ones.
+function thinPoints(coordinates: LngLatTuple[]) {
+  if (coordinates.length <= MAX_IMPORT_POINTS) return coordinates;
+  const stride = Math.ceil((coordinates.length - 1) / (MAX_IMPORT_POINTS - 1));
+  return coordinates.filter((_, idx) => idx % stride === 0 || idx === coordinates.length - 1);
+}
+
+export function parseRouteFile(filename: string, text: string): ImportedRoute {
+  const format = detectFormat(filename, text);
+  if (!format) {
+    throw new Error("Unsupported file. Import a .gpx, .tcx or .geojson route.");
+  }
+
+  const parsed =
+    format === "gpx" ? parseGpx(text) : format === "tcx" ? parseTcx(text) : parseGeoJson(text);
+
+  const coordinates = parsed.coordinates.filter(
+    ([lng, lat]) => Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+  );
+  if (coordinates.length < 2) {
+    throw new Error(`No route line found in this ${format.toUpperCase()} file.`);
+  }
+
+  return {
+    name: parsed.name || filename.replace(/\.[^.]+$/, ""),
+    format,
+    coordinates: thinPoints(coordinates),
+  };
+}
@@ -0,0 +1,108 @@
+// Browser-only route library kept in IndexedDB. Generated routes land in the
+// history automatically; saved routes stay until the runner deletes them.
+
+export type LibraryEntryKind = "history" | "saved";
+
+export type LibraryEntry<T> = {
+  id: string;
+  kind: LibraryEntryKind;
+  name: string;
+  tags: string[];
+  notes: string;
+  created_at: string;
+  target_km: number;
+  seed: number | null;
+  route: T;
+};
+
+const DB_NAME = "runroutr-library";
+const DB_VERSION = 1;
+const STORE_NAME = "routes";
+export const MAX_HISTORY_ENTRIES = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openLibrary() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("This browser can't store routes."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      store.createIndex("kind", "kind");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((err) => {
+    // Let a later call try again, e.g. after the runner frees up storage.
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+export function createLibraryEntryId() {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Newest first.
+export async function listLibraryEntries<T>(): Promise<LibraryEntry<T>[]> {
+  const db = await openLibrary();
+  const tx = db.transaction(STORE_NAME, "readonly");
+  const entries = await requestToPromise(
+    tx.objectStore(STORE_NAME).getAll() as IDBRequest<LibraryEntry<T>[]>
+  );
+  return entries.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export async function putLibraryEntries<T>(entries: LibraryEntry<T>[]) {
+  const db = await openLibrary();
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  const store = tx.objectStore(STORE_NAME);
+  for (const entry of entries) store.put(entry);
+  await transactionDone(tx);
+}
+
+export async function deleteLibraryEntries(ids: string[]) {
+  const db = await openLibrary();
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  const store = tx.objectStore(STORE_NAME);
+  for (const id of ids) store.delete(id);
+  await transactionDone(tx);
+}
+
+// Keeps only the newest `max` history entries; saved routes are never pruned.
+export async function pruneLibraryHistory(max = MAX_HISTORY_ENTRIES) {
+  const db = await openLibrary();
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  const index = tx.objectStore(STORE_NAME).index("kind");
+  const history = await requestToPromise(
+    index.getAll("history") as IDBRequest<LibraryEntry<unknown>[]>
+  );
+
+  const stale = history
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(max);
+  for (const entry of stale) tx.objectStore(STORE_NAME).delete(entry.id);
+  await transactionDone(tx);
+}
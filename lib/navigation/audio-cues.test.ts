@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { MatchedCue } from "../export/cues";
+import {
+  createAudioCueState,
+  scheduleAudioCues,
+  spokenDistance,
+  spokenDuration,
+  TURN_LEAD_PRESETS,
+  type AudioCueSettings,
+  type AudioCueState,
+} from "./audio-cues";
+import type { NavigationState } from "./tracker";
+
+const LEFT: MatchedCue = {
+  index: 4,
+  kind: "left",
+  name: "Left",
+  instruction: "Turn left onto Main Street",
+  street: "Main Street",
+};
+
+const METRIC: AudioCueSettings = { units: "metric", turnLeadsM: TURN_LEAD_PRESETS.standard };
+
+function navigation(overrides: Partial<NavigationState> = {}): NavigationState {
+  return {
+    total_m: 5000,
+    progress_m: 0,
+    started_ms: 0,
+    elapsed_s: 0,
+    position: [0, 0],
+    snapped: [0, 0],
+    offset_m: 0,
+    off_route: false,
+    misses: 0,
+    next_cue: null,
+    distance_to_cue_m: null,
+    finished: false,
+    ...overrides,
+  };
+}
+
+// Feeds updates in order and collects every cue text.
+function speak(updates: Partial<NavigationState>[], settings = METRIC) {
+  let state: AudioCueState = createAudioCueState();
+  const said: string[] = [];
+  for (const update of updates) {
+    const result = scheduleAudioCues(navigation(update), state, settings);
+    state = result.state;
+    said.push(...result.cues.map((cue) => cue.text));
+  }
+  return said;
+}
+
+describe("scheduleAudioCues", () => {
+  it("warns at each lead distance once", () => {
+    const said = speak(
+      [250, 190, 150, 60, 25, 20, 10].map((distance) => ({
+        progress_m: 300 - distance,
+        next_cue: LEFT,
+        distance_to_cue_m: distance,
+      }))
+    );
+    expect(said).toEqual([
+      "In 190 meters, turn left onto Main Street.",
+      "In 30 meters, turn left onto Main Street.",
+    ]);
+  });
+
+  it("says only the nearest lead when several are crossed at once", () => {
+    const said = speak([
+      { next_cue: LEFT, distance_to_cue_m: 250 },
+      { next_cue: LEFT, distance_to_cue_m: 12 },
+      { next_cue: LEFT, distance_to_cue_m: 5 },
+    ]);
+    expect(said).toEqual(["Turn left onto Main Street now."]);
+  });
+
+  it("announces each split with time and pace", () => {
+    const said = speak([
+      { progress_m: 990, elapsed_s: 330 },
+      { progress_m: 1010, elapsed_s: 340 },
+      { progress_m: 2005, elapsed_s: 660 },
+    ]);
+    expect(said).toEqual([
+      "1 kilometer. Time 5 minutes 40 seconds. Pace 5 minutes 40 seconds per kilometer.",
+      "2 kilometers. Time 11 minutes. Pace 5 minutes 20 seconds per kilometer.",
+    ]);
+  });
+
+  it("splits by the mile in imperial units", () => {
+    const said = speak([{ progress_m: 1700, elapsed_s: 600 }], {
+      units: "imperial",
+      turnLeadsM: [50],
+    });
+    expect(said).toEqual(["1 mile. Time 10 minutes. Pace 10 minutes per mile."]);
+  });
+
+  it("calls halfway and the last 500 meters on longer routes only", () => {
+    const isSplit = (text: string) => text.includes("kilometer");
+    const long = speak([{ progress_m: 800 }, { progress_m: 2600 }, { progress_m: 4600 }]);
+    expect(long.filter((text) => !isSplit(text))).toEqual(["Halfway there.", "500 meters to go."]);
+
+    const short = speak([
+      { total_m: 1200, progress_m: 700 },
+      { total_m: 1200, progress_m: 900 },
+    ]);
+    expect(short).toEqual([]);
+  });
+
+  it("stays quiet off route and before the first fix", () => {
+    expect(
+      speak([
+        { position: null, next_cue: LEFT, distance_to_cue_m: 20 },
+        { off_route: true, next_cue: LEFT, distance_to_cue_m: 20, progress_m: 1200 },
+      ])
+    ).toEqual([]);
+  });
+
+  it("announces the finish once with the total time", () => {
+    const said = speak([
+      { finished: true, progress_m: 5000, elapsed_s: 1830 },
+      { finished: true, progress_m: 5000, elapsed_s: 1840 },
+    ]);
+    expect(said).toEqual(["Route complete. Total time 30 minutes 30 seconds."]);
+  });
+});
+
+describe("spoken units", () => {
+  it("rounds distances the way people say them", () => {
+    expect(spokenDistance(4, "metric")).toBe("10 meters");
+    expect(spokenDistance(1040, "metric")).toBe("1 kilometer");
+    expect(spokenDistance(2460, "metric")).toBe("2.5 kilometers");
+    expect(spokenDistance(60, "imperial")).toBe("200 feet");
+    expect(spokenDistance(1609, "imperial")).toBe("1 mile");
+  });
+
+  it("reads durations with hours, minutes and seconds", () => {
+    expect(spokenDuration(45)).toBe("45 seconds");
+    expect(spokenDuration(60)).toBe("1 minute");
+    expect(spokenDuration(3725)).toBe("1 hour 2 minutes");
+  });
+});
@@ -0,0 +1,186 @@
+import type { CueKind, MatchedCue } from "../export/cues";
+import { METERS_PER_FOOT, METERS_PER_MILE, type UnitSystem } from "../units/format";
+import type { NavigationState } from "./tracker";
+
+export type AudioCueKind = "turn" | "split" | "halfway" | "almost-done" | "finish";
+
+export type AudioCue = {
+  kind: AudioCueKind;
+  text: string;
+};
+
+export type AudioCueSettings = {
+  units: UnitSystem;
+  // How far before a turn to announce it, e.g. [200, 30] for an early
+  // heads-up and a "now" call.
+  turnLeadsM: number[];
+};
+
+// What has been said so far, so a cue is never repeated.
+export type AudioCueState = {
+  // `${cue index}:${lead}` for every turn warning given.
+  turns: string[];
+  splits: number;
+  last_split_s: number;
+  halfway: boolean;
+  almost_done: boolean;
+  finished: boolean;
+};
+
+export type TurnLeadPreset = "early" | "standard" | "late";
+
+// Lead distances in meters for each turn warning setting.
+export const TURN_LEAD_PRESETS: Record<TurnLeadPreset, number[]> = {
+  early: [400, 100],
+  standard: [200, 30],
+  late: [50],
+};
+
+// Closer than this, a turn is called as happening now.
+const TURN_NOW_M = 15;
+// Short routes don't need halfway and nearly-there calls.
+const MIN_MILESTONE_ROUTE_M = 1500;
+
+const TURN_PHRASES: Record<CueKind, string> = {
+  left: "turn left",
+  slight_left: "bear left",
+  sharp_left: "turn sharp left",
+  right: "turn right",
+  slight_right: "bear right",
+  sharp_right: "turn sharp right",
+  straight: "continue straight",
+  u_turn: "make a U-turn",
+  finish: "you've reached the finish",
+  generic: "continue",
+};
+
+export function createAudioCueState(): AudioCueState {
+  return {
+    turns: [],
+    splits: 0,
+    last_split_s: 0,
+    halfway: false,
+    almost_done: false,
+    finished: false,
+  };
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+// Distances rounded the way a person would say them.
+export function spokenDistance(meters: number, units: UnitSystem) {
+  if (units === "imperial") {
+    if (meters < 0.1 * METERS_PER_MILE) {
+      return `${Math.max(50, Math.round(meters / METERS_PER_FOOT / 50) * 50)} feet`;
+    }
+    const miles = Math.round((meters / METERS_PER_MILE) * 10) / 10;
+    return miles === 1 ? "1 mile" : `${miles} miles`;
+  }
+  if (meters < 1000) return `${Math.max(10, Math.round(meters / 10) * 10)} meters`;
+  const km = Math.round(meters / 100) / 10;
+  return km === 1 ? "1 kilometer" : `${km} kilometers`;
+}
+
+export function spokenDuration(seconds: number) {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (hours > 0) return `${plural(hours, "hour")} ${plural(minutes, "minute")}`;
+  if (minutes === 0) return plural(secs, "second");
+  if (secs === 0) return plural(minutes, "minute");
+  return `${plural(minutes, "minute")} ${plural(secs, "second")}`;
+}
+
+// Spoken turn text. Kept apart from the on-screen instruction, which is
+// written to be read ("Turn left onto Main St.") rather than heard ahead of
+// time.
+export function turnCueText(cue: MatchedCue, distanceM: number, units: UnitSystem) {
+  const phrase = TURN_PHRASES[cue.kind];
+  const onto = cue.street && cue.kind !== "finish" ? ` onto ${cue.street}` : "";
+  if (distanceM <= TURN_NOW_M) {
+    return `${phrase.charAt(0).toUpperCase()}${phrase.slice(1)}${onto} now.`;
+  }
+  return `In ${spokenDistance(distanceM, units)}, ${phrase}${onto}.`;
+}
+
+function splitCueText(splits: number, elapsedS: number, splitS: number, units: UnitSystem) {
+  const unit = units === "imperial" ? "mile" : "kilometer";
+  return `${plural(splits, unit)}. Time ${spokenDuration(elapsedS)}. Pace ${spokenDuration(
+    splitS
+  )} per ${unit}.`;
+}
+
+// Decides what to say after a navigation update. Pure and deterministic: the
+// same states in the same order always give the same cues, so it can be
+// driven by a simulated run.
+export function scheduleAudioCues(
+  navigation: NavigationState,
+  state: AudioCueState,
+  settings: AudioCueSettings
+): { cues: AudioCue[]; state: AudioCueState } {
+  const cues: AudioCue[] = [];
+  const next: AudioCueState = { ...state, turns: [...state.turns] };
+  const remainingM = navigation.total_m - navigation.progress_m;
+  const milestones = navigation.total_m >= MIN_MILESTONE_ROUTE_M;
+
+  if (navigation.finished) {
+    if (!state.finished) {
+      next.finished = true;
+      cues.push({
+        kind: "finish",
+        text: `Route complete. Total time ${spokenDuration(navigation.elapsed_s)}.`,
+      });
+    }
+    return { cues, state: next };
+  }
+  if (!navigation.position || navigation.off_route) return { cues, state: next };
+
+  const cue = navigation.next_cue;
+  const distanceM = navigation.distance_to_cue_m;
+  if (cue && distanceM !== null && cue.kind !== "finish") {
+    // When several leads are crossed at once (a fix was missed, or two turns
+    // are close together) only the nearest is said.
+    const crossed = settings.turnLeadsM.filter(
+      (lead) => distanceM <= lead && !next.turns.includes(`${cue.index}:${lead}`)
+    );
+    if (crossed.length > 0) {
+      for (const lead of crossed) next.turns.push(`${cue.index}:${lead}`);
+      cues.push({ kind: "turn", text: turnCueText(cue, distanceM, settings.units) });
+    }
+  }
+
+  const splitM = settings.units === "imperial" ? METERS_PER_MILE : 1000;
+  const splits = Math.floor(navigation.progress_m / splitM);
+  if (splits > state.splits) {
+    next.splits = splits;
+    next.last_split_s = navigation.elapsed_s;
+    cues.push({
+      kind: "split",
+      text: splitCueText(
+        splits,
+        navigation.elapsed_s,
+        (navigation.elapsed_s - state.last_split_s) / (splits - state.splits),
+        settings.units
+      ),
+    });
+  }
+
+  if (milestones && !state.halfway && navigation.progress_m >= navigation.total_m / 2) {
+    next.halfway = true;
+    cues.push({ kind: "halfway", text: "Halfway there." });
+  }
+
+  const almostDoneM = settings.units === "imperial" ? METERS_PER_MILE / 4 : 500;
+  if (milestones && !state.almost_done && remainingM <= almostDoneM) {
+    next.almost_done = true;
+    cues.push({
+      kind: "almost-done",
+      text: settings.units === "imperial" ? "A quarter mile to go." : "500 meters to go.",
+    });
+  }
+
+  return { cues, state: next };
+}
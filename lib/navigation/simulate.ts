@@ -0,0 +1,43 @@
+import { distanceMeters } from "../routing/geo";
+import type { LngLatTuple } from "../routing/types";
+import type { NavigationFix } from "./tracker";
+
+// Replays a line (e.g. a run recorded to GPX) as evenly spaced GPS fixes, so
+// navigation can be tried without going outside. Fixes are exact, like a
+// phone with a good signal, and timed as if run at the given pace.
+export function createSimulatedFixes(
+  coordinates: LngLatTuple[],
+  metersPerFix: number,
+  paceSecondsPerKm: number
+): NavigationFix[] {
+  if (coordinates.length === 0 || !(metersPerFix > 0)) return [];
+
+  const fix = (lng: number, lat: number, meters: number): NavigationFix => ({
+    lng,
+    lat,
+    accuracy_m: 5,
+    time_ms: Math.round(meters * paceSecondsPerKm),
+  });
+
+  const fixes = [fix(coordinates[0][0], coordinates[0][1], 0)];
+  let travelled = 0;
+  let untilNext = metersPerFix;
+  for (let i = 1; i < coordinates.length; i++) {
+    const [aLng, aLat] = coordinates[i - 1];
+    const [bLng, bLat] = coordinates[i];
+    const segment = distanceMeters(coordinates[i - 1], coordinates[i]);
+    let covered = 0;
+    while (segment - covered >= untilNext) {
+      covered += untilNext;
+      const t = covered / segment;
+      fixes.push(fix(aLng + (bLng - aLng) * t, aLat + (bLat - aLat) * t, travelled + covered));
+      untilNext = metersPerFix;
+    }
+    untilNext -= segment - covered;
+    travelled += segment;
+  }
+
+  const last = coordinates[coordinates.length - 1];
+  fixes.push(fix(last[0], last[1], travelled));
+  return fixes;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import type { LngLatTuple } from "../routing/types";
+import {
+  createNavigationState,
+  prepareNavigationRoute,
+  rejoinPoint,
+  updateNavigation,
+  type NavigationRoute,
+  type NavigationState,
+} from "./tracker";
+
+// About 200 m north, 220 m east, back south and home: a 840 m loop.
+const D = 0.0018;
+const LOOP: LngLatTuple[] = [
+  [0, 0],
+  [0, D],
+  [D * 1.1, D],
+  [D * 1.1, 0],
+  [0, 0],
+];
+
+const LOOP_STEPS = [
+  { instruction: "Head north", location: LOOP[0], type: "depart", modifier: null },
+  { instruction: "Turn right", location: LOOP[1], type: "turn", modifier: "right" },
+  { instruction: "Turn right", location: LOOP[2], type: "turn", modifier: "right" },
+  { instruction: "Turn right", location: LOOP[3], type: "turn", modifier: "right" },
+  { instruction: "You have arrived", location: LOOP[4], type: "arrive", modifier: null },
+];
+
+function run(route: NavigationRoute) {
+  let state = createNavigationState(route);
+  let time_ms = 0;
+  return {
+    fix(lng: number, lat: number, accuracy_m: number | null = 5): NavigationState {
+      time_ms += 1000;
+      state = updateNavigation(route, state, { lng, lat, accuracy_m, time_ms });
+      return state;
+    },
+  };
+}
+
+describe("updateNavigation", () => {
+  const route = prepareNavigationRoute(LOOP, LOOP_STEPS);
+
+  it("snaps fixes beside the line onto it", () => {
+    const state = run(route).fix(0.00005, D / 2);
+    // 0.00005 degrees at the equator.
+    expect(state.offset_m).toBeCloseTo(5.57, 1);
+    expect(state.snapped?.[0]).toBeCloseTo(0, 6);
+    expect(state.progress_m).toBeCloseTo(route.distances[1] / 2, -1);
+    expect(state.next_cue?.instruction).toBe("Turn right");
+    expect(state.off_route).toBe(false);
+  });
+
+  it("ignores fixes that are too vague", () => {
+    const runner = run(route);
+    runner.fix(0, D / 2);
+    const state = runner.fix(0, D, 120);
+    expect(state.progress_m).toBeCloseTo(route.distances[1] / 2, -1);
+  });
+
+  it("never moves progress backwards", () => {
+    const runner = run(route);
+    runner.fix(0, D / 2);
+    const state = runner.fix(0, D / 4);
+    expect(state.progress_m).toBeCloseTo(route.distances[1] / 2, -1);
+  });
+
+  it("flags the runner off route after a few stray fixes", () => {
+    const runner = run(route);
+    runner.fix(0, D / 4);
+    expect(runner.fix(-0.003, D / 4).off_route).toBe(false);
+    expect(runner.fix(-0.003, D / 4).off_route).toBe(false);
+    const state = runner.fix(-0.003, D / 4);
+    expect(state.off_route).toBe(true);
+    expect(state.misses).toBe(3);
+    expect(rejoinPoint(route, state)[1]).toBeGreaterThan(D / 4);
+  });
+
+  it("picks the run back up when the runner rejoins further ahead", () => {
+    const runner = run(route);
+    runner.fix(0, D / 4);
+    for (let i = 0; i < 3; i++) runner.fix(-0.003, D / 4);
+    const state = runner.fix(D * 0.55, D);
+    expect(state.off_route).toBe(false);
+    expect(state.progress_m).toBeGreaterThan(route.distances[1]);
+    expect(state.finished).toBe(false);
+  });
+
+  it("doesn't finish a loop when the runner rejoins near the start", () => {
+    const runner = run(route);
+    runner.fix(0, 0.0001);
+    for (let i = 0; i < 3; i++) runner.fix(-0.003, -0.003);
+    // Closer to the closing leg than the first one.
+    const state = runner.fix(0.00003, 0.00001);
+    expect(state.off_route).toBe(false);
+    expect(state.progress_m).toBeLessThan(50);
+    expect(state.finished).toBe(false);
+  });
+
+  it("finishes once the runner reaches the end along the line", () => {
+    const runner = run(route);
+    for (const [lng, lat] of [...LOOP.slice(1, 4), [D * 0.5, 0] as LngLatTuple]) {
+      runner.fix(lng, lat);
+    }
+    const state = runner.fix(0.0001, 0);
+    expect(state.finished).toBe(true);
+    expect(state.elapsed_s).toBe(4);
+  });
+
+  it("stays finished", () => {
+    const runner = run(route);
+    for (const [lng, lat] of [...LOOP.slice(1), [0.0001, 0] as LngLatTuple]) runner.fix(lng, lat);
+    const finished = runner.fix(0.0001, 0);
+    expect(runner.fix(-0.003, -0.003)).toBe(finished);
+  });
+});
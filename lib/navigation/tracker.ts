@@ -0,0 +1,206 @@
+import { matchCuesToTrack, type CueStep, type MatchedCue } from "../export/cues";
+import { cumulativeDistances, type TrackPoint } from "../export/points";
+import type { LngLatTuple } from "../routing/types";
+
+export type NavigationRoute = {
+  points: TrackPoint[];
+  // Distance from the start to each point, in meters.
+  distances: number[];
+  cues: MatchedCue[];
+  total_m: number;
+};
+
+export type NavigationFix = {
+  lng: number;
+  lat: number;
+  accuracy_m: number | null;
+  // When the fix was taken, in milliseconds on any consistent clock.
+  time_ms: number;
+};
+
+export type NavigationState = {
+  total_m: number;
+  // How far along the route the runner has got; never goes backwards.
+  progress_m: number;
+  // Time of the first fix, and seconds run since.
+  started_ms: number | null;
+  elapsed_s: number;
+  position: LngLatTuple | null;
+  snapped: LngLatTuple | null;
+  // Distance from the latest fix to the route line.
+  offset_m: number | null;
+  off_route: boolean;
+  // Fixes in a row that were too far from the line.
+  misses: number;
+  next_cue: MatchedCue | null;
+  distance_to_cue_m: number | null;
+  finished: boolean;
+};
+
+// Farther than this from the line and the runner has left the route.
+export const OFF_ROUTE_METERS = 40;
+// Fixes this vague are dropped rather than trusted to move the runner.
+const MAX_FIX_ACCURACY_M = 60;
+// A single stray fix shouldn't raise the alarm.
+const OFF_ROUTE_FIXES = 3;
+// Snapping only looks a little behind and ahead of progress, so an
+// out-and-back doesn't jump to the return leg running alongside.
+const SNAP_BEHIND_M = 50;
+const SNAP_AHEAD_M = 400;
+// Off the route the window widens to catch a shortcut or a reroute back on.
+const REJOIN_WINDOW_M = 1500;
+// A cue this close counts as reached and the next one is shown.
+const CUE_REACHED_M = 10;
+const FINISH_RADIUS_M = 25;
+// Rerouting aims a little ahead of where the runner left the line.
+const REJOIN_AHEAD_M = 150;
+
+export function prepareNavigationRoute(
+  coordinates: LngLatTuple[],
+  steps: CueStep[]
+): NavigationRoute {
+  const points = coordinates.map(([lon, lat]) => ({ lat, lon }));
+  const distances = cumulativeDistances(points);
+  return {
+    points,
+    distances,
+    cues: matchCuesToTrack(points, steps),
+    total_m: distances[distances.length - 1] ?? 0,
+  };
+}
+
+function nextCue(route: NavigationRoute, progressMeters: number) {
+  const cue =
+    route.cues.find((c) => route.distances[c.index] > progressMeters + CUE_REACHED_M) ?? null;
+  return {
+    next_cue: cue,
+    distance_to_cue_m: cue ? route.distances[cue.index] - progressMeters : null,
+  };
+}
+
+export function createNavigationState(route: NavigationRoute): NavigationState {
+  return {
+    total_m: route.total_m,
+    progress_m: 0,
+    started_ms: null,
+    elapsed_s: 0,
+    position: null,
+    snapped: null,
+    offset_m: null,
+    off_route: false,
+    misses: 0,
+    ...nextCue(route, 0),
+    finished: false,
+  };
+}
+
+// Closest point on the line between two distances along it. Works in a flat
+// projection around the fix, which is plenty at street scale. With
+// `earliestWithin` set, the first stretch of line that close wins over any
+// later one, so a loop's start can't snap to its finish.
+function snapToRoute(
+  route: NavigationRoute,
+  fix: NavigationFix,
+  fromM: number,
+  toM: number,
+  earliestWithin?: number
+) {
+  const cosLat = Math.cos((fix.lat * Math.PI) / 180);
+  const toXY = (point: TrackPoint) => [
+    (point.lon - fix.lng) * cosLat * 111320,
+    (point.lat - fix.lat) * 111320,
+  ];
+
+  let best = { offset_m: Infinity, along_m: 0, point: [fix.lng, fix.lat] as LngLatTuple };
+  for (let i = 0; i < route.points.length - 1; i++) {
+    if (route.distances[i + 1] < fromM) continue;
+    if (route.distances[i] > toM) break;
+
+    const [ax, ay] = toXY(route.points[i]);
+    const [bx, by] = toXY(route.points[i + 1]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSq)) : 0;
+    const offset = Math.hypot(ax + dx * t, ay + dy * t);
+    if (earliestWithin !== undefined && best.offset_m <= earliestWithin && offset > earliestWithin) {
+      break;
+    }
+    if (offset < best.offset_m) {
+      const a = route.points[i];
+      const b = route.points[i + 1];
+      best = {
+        offset_m: offset,
+        along_m: route.distances[i] + (route.distances[i + 1] - route.distances[i]) * t,
+        point: [a.lon + (b.lon - a.lon) * t, a.lat + (b.lat - a.lat) * t],
+      };
+    }
+  }
+  return best;
+}
+
+export function updateNavigation(
+  route: NavigationRoute,
+  state: NavigationState,
+  fix: NavigationFix
+): NavigationState {
+  if (state.finished) return state;
+  if (fix.accuracy_m !== null && fix.accuracy_m > MAX_FIX_ACCURACY_M) return state;
+
+  // Once off the route, rejoining a good way ahead picks the run back up.
+  const snap = snapToRoute(
+    route,
+    fix,
+    state.progress_m - SNAP_BEHIND_M,
+    state.progress_m + (state.off_route ? REJOIN_WINDOW_M : SNAP_AHEAD_M),
+    state.off_route ? OFF_ROUTE_METERS : undefined
+  );
+  const onRoute = snap.offset_m <= OFF_ROUTE_METERS;
+  const misses = onRoute ? 0 : state.misses + 1;
+  const progress_m = onRoute ? Math.max(state.progress_m, snap.along_m) : state.progress_m;
+  const started_ms = state.started_ms ?? fix.time_ms;
+
+  return {
+    total_m: route.total_m,
+    progress_m,
+    started_ms,
+    elapsed_s: Math.max(0, (fix.time_ms - started_ms) / 1000),
+    position: [fix.lng, fix.lat],
+    snapped: onRoute ? snap.point : state.snapped,
+    offset_m: snap.offset_m,
+    off_route: misses >= OFF_ROUTE_FIXES,
+    misses,
+    ...nextCue(route, progress_m),
+    finished: progress_m >= route.total_m - FINISH_RADIUS_M,
+  };
+}
+
+export function pointAlongRoute(route: NavigationRoute, meters: number): LngLatTuple {
+  const target = Math.min(Math.max(0, meters), route.total_m);
+  for (let i = 1; i < route.points.length; i++) {
+    if (route.distances[i] < target) continue;
+    const a = route.points[i - 1];
+    const b = route.points[i];
+    const span = route.distances[i] - route.distances[i - 1];
+    const t = span > 0 ? (target - route.distances[i - 1]) / span : 0;
+    return [a.lon + (b.lon - a.lon) * t, a.lat + (b.lat - a.lat) * t];
+  }
+  const last = route.points[route.points.length - 1];
+  return [last.lon, last.lat];
+}
+
+// The part of the route already run, for fading it out on the map.
+export function completedLine(route: NavigationRoute, progressMeters: number): LngLatTuple[] {
+  if (progressMeters <= 0) return [];
+  const line: LngLatTuple[] = [];
+  for (let i = 0; i < route.points.length && route.distances[i] < progressMeters; i++) {
+    line.push([route.points[i].lon, route.points[i].lat]);
+  }
+  line.push(pointAlongRoute(route, progressMeters));
+  return line;
+}
+
+// Where a reroute should bring an off-route runner back onto the line.
+export function rejoinPoint(route: NavigationRoute, state: NavigationState): LngLatTuple {
+  return pointAlongRoute(route, state.progress_m + REJOIN_AHEAD_M);
+}
@@ -0,0 +1,135 @@
+import { DEFAULT_PACE_S_PER_KM, type PaceModel } from "./pace";
+import { DEFAULT_PREFERENCES, type ScoringPreferences } from "./preferences";
+import type { RoutingProfile } from "./types";
+import { DEFAULT_PLAN_BOUNDS, type PlanBounds } from "./waypoints";
+
+export type Activity = "run" | "trail-run" | "walk" | "cycle";
+
+// Shortest steps, in meters, that still get their own line in the
+// directions. Anything shorter is folded into its neighbours.
+export type StepFilter = {
+  // Zero-length connectors between router steps.
+  connectorM: number;
+  // Turns onto a named street.
+  namedTurnM: number;
+  // Turns onto an unnamed or generic way.
+  unnamedTurnM: number;
+  // Generic paths ("walkway", "crosswalk") without a turn worth calling.
+  genericPathM: number;
+  // "Continue" and other non-turn guidance.
+  guidanceM: number;
+  // Left-right jogs on unnamed connectors up to this long are merged.
+  zigZagM: number;
+};
+
+export type ActivityProfile = {
+  routing: RoutingProfile;
+  paceSPerKm: number;
+  // Which pace limits and grade adjustment apply.
+  paceModel: PaceModel;
+  plan: PlanBounds;
+  // How far a candidate may land from the target and still stop the tuning:
+  // a share of the target, clamped between minKm and maxKm.
+  tolerance: { ratio: number; minKm: number; maxKm: number };
+  // Multiplies the preference weights, so each activity starts from its own
+  // idea of a good route.
+  weights: ScoringPreferences;
+  steps: StepFilter;
+};
+
+const FOOT_STEPS: StepFilter = {
+  connectorM: 8,
+  namedTurnM: 20,
+  unnamedTurnM: 45,
+  genericPathM: 140,
+  guidanceM: 220,
+  zigZagM: 70,
+};
+
+export const ACTIVITY_PROFILES: Record<Activity, ActivityProfile> = {
+  run: {
+    routing: "walking",
+    paceSPerKm: DEFAULT_PACE_S_PER_KM,
+    paceModel: "foot",
+    plan: DEFAULT_PLAN_BOUNDS,
+    tolerance: { ratio: 0.15, minKm: 0.6, maxKm: 1.2 },
+    weights: DEFAULT_PREFERENCES,
+    steps: FOOT_STEPS,
+  },
+  // Paths and quiet roads matter more than hitting the distance exactly.
+  "trail-run": {
+    routing: "walking",
+    paceSPerKm: 420,
+    paceModel: "foot",
+    plan: DEFAULT_PLAN_BOUNDS,
+    tolerance: { ratio: 0.15, minKm: 0.6, maxKm: 1.5 },
+    weights: { ...DEFAULT_PREFERENCES, paths: 1.8, scenery: 1.4, avoid_big_roads: 1.4 },
+    steps: FOOT_STEPS,
+  },
+  // Shorter outings, so the distance should land closer.
+  walk: {
+    routing: "walking",
+    paceSPerKm: 720,
+    paceModel: "foot",
+    plan: DEFAULT_PLAN_BOUNDS,
+    tolerance: { ratio: 0.1, minKm: 0.3, maxKm: 0.8 },
+    weights: { ...DEFAULT_PREFERENCES, fewer_turns: 0.8, uninterrupted: 0.6 },
+    steps: FOOT_STEPS,
+  },
+  // Rides are 40-100 km, cycle routes wander further from the straight line,
+  // footpaths are a nuisance and stopping costs momentum. Short turns don't
+  // need calling out at speed.
+  cycle: {
+    routing: "cycling",
+    paceSPerKm: 150,
+    paceModel: "bike",
+    plan: {
+      loopRadius: { low: 0.1, high: 0.5, initial: 0.2 },
+      pinnedLoopRadius: { low: 0.04, high: 0.5, initial: 0.18 },
+      detourFactor: 1.35,
+    },
+    tolerance: { ratio: 0.05, minKm: 1.5, maxKm: 5 },
+    weights: {
+      ...DEFAULT_PREFERENCES,
+      paths: 0.3,
+      scenery: 0.8,
+      distance_strictness: 0.5,
+      uninterrupted: 1.3,
+    },
+    steps: {
+      connectorM: 20,
+      namedTurnM: 60,
+      unnamedTurnM: 120,
+      genericPathM: 300,
+      guidanceM: 800,
+      zigZagM: 150,
+    },
+  },
+};
+
+export const ACTIVITIES = Object.keys(ACTIVITY_PROFILES) as Activity[];
+
+export function parseActivity(value: string | null): Activity | undefined {
+  if (!value) return "run";
+  return ACTIVITIES.find((activity) => activity === value);
+}
+
+export function getToleranceKm(profile: ActivityProfile, targetKm: number) {
+  const { ratio, minKm, maxKm } = profile.tolerance;
+  return Math.min(maxKm, Math.max(minKm, targetKm * ratio));
+}
+
+// The runner's weights on top of the activity's.
+export function applyActivityWeights(
+  preferences: ScoringPreferences,
+  profile: ActivityProfile
+): ScoringPreferences {
+  return {
+    paths: preferences.paths * profile.weights.paths,
+    scenery: preferences.scenery * profile.weights.scenery,
+    fewer_turns: preferences.fewer_turns * profile.weights.fewer_turns,
+    avoid_big_roads: preferences.avoid_big_roads * profile.weights.avoid_big_roads,
+    distance_strictness: preferences.distance_strictness * profile.weights.distance_strictness,
+    uninterrupted: preferences.uninterrupted * profile.weights.uninterrupted,
+  };
+}
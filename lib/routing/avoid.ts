@@ -0,0 +1,119 @@
+import { distanceMeters } from "./geo";
+import type { LngLatTuple } from "./types";
+
+// A closed ring of [lng, lat] vertices. The closing vertex is optional.
+export type AvoidZone = LngLatTuple[];
+
+export type AvoidZoneStats = {
+  insideMeters: number;
+  zonesEntered: number;
+};
+
+type IndexedZone = {
+  ring: AvoidZone;
+  minLng: number;
+  maxLng: number;
+  minLat: number;
+  maxLat: number;
+};
+
+function indexZone(ring: AvoidZone): IndexedZone {
+  const lngs = ring.map(([lng]) => lng);
+  const lats = ring.map(([, lat]) => lat);
+  return {
+    ring,
+    minLng: Math.min(...lngs),
+    maxLng: Math.max(...lngs),
+    minLat: Math.min(...lats),
+    maxLat: Math.max(...lats),
+  };
+}
+
+// Ray casting; fine at city scale where the zones are small and planar enough.
+export function pointInZone(point: LngLatTuple, ring: AvoidZone) {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function orientation(a: LngLatTuple, b: LngLatTuple, c: LngLatTuple) {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+}
+
+function segmentsCross(a: LngLatTuple, b: LngLatTuple, c: LngLatTuple, d: LngLatTuple) {
+  return (
+    orientation(a, b, c) !== orientation(a, b, d) &&
+    orientation(c, d, a) !== orientation(c, d, b)
+  );
+}
+
+function segmentTouchesZone(a: LngLatTuple, b: LngLatTuple, zone: IndexedZone) {
+  if (
+    Math.max(a[0], b[0]) < zone.minLng ||
+    Math.min(a[0], b[0]) > zone.maxLng ||
+    Math.max(a[1], b[1]) < zone.minLat ||
+    Math.min(a[1], b[1]) > zone.maxLat
+  ) {
+    return false;
+  }
+
+  if (pointInZone(a, zone.ring) || pointInZone(b, zone.ring)) return true;
+
+  // Both ends outside can still clip a corner of the zone.
+  const { ring } = zone;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    if (segmentsCross(a, b, ring[j], ring[i])) return true;
+  }
+  return false;
+}
+
+export function getAvoidZoneStats(
+  coordinates: LngLatTuple[],
+  zones: AvoidZone[]
+): AvoidZoneStats {
+  if (zones.length === 0 || coordinates.length < 2) {
+    return { insideMeters: 0, zonesEntered: 0 };
+  }
+
+  const indexed = zones.map(indexZone);
+  const entered = new Set<number>();
+  let insideMeters = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const a = coordinates[i - 1];
+    const b = coordinates[i];
+    let segmentInside = false;
+
+    indexed.forEach((zone, zoneIdx) => {
+      if (!segmentTouchesZone(a, b, zone)) return;
+      entered.add(zoneIdx);
+      segmentInside = true;
+    });
+
+    if (segmentInside) insideMeters += distanceMeters(a, b);
+  }
+
+  return { insideMeters, zonesEntered: entered.size };
+}
+
+export function isValidAvoidZone(value: unknown): value is AvoidZone {
+  return (
+    Array.isArray(value) &&
+    value.length >= 3 &&
+    value.every(
+      (point) =>
+        Array.isArray(point) &&
+        point.length === 2 &&
+        Number.isFinite(point[0]) &&
+        Number.isFinite(point[1]) &&
+        Math.abs(point[0]) <= 180 &&
+        Math.abs(point[1]) <= 90
+    )
+  );
+}
@@ -0,0 +1,53 @@
+import type { RouteManeuver } from "./types";
+
+// Fallback instruction text for routers that only return maneuver codes
+// (self-hosted OSRM does not generate instruction strings).
+export function describeManeuver(maneuver: RouteManeuver, name: string | null) {
+  const { type, modifier } = maneuver;
+  const onto = name ? ` onto ${name}` : "";
+
+  switch (type) {
+    case "depart":
+      return name ? `Head out on ${name}` : "Head out";
+    case "arrive":
+      return "You have arrived at your destination";
+    case "turn":
+    case "end of road":
+      if (modifier === "uturn") return "Make a U-turn";
+      if (modifier === "straight") return `Continue straight${onto}`;
+      return modifier ? `Turn ${modifier}${onto}` : `Turn${onto}`;
+    case "fork":
+    case "merge":
+      return modifier ? `Keep ${modifier}${onto}` : `Keep going${onto}`;
+    case "roundabout":
+    case "rotary":
+    case "roundabout turn":
+      return `Take the roundabout${onto}`;
+    case "new name":
+    case "continue":
+      return `Continue${onto}`;
+    default:
+      return `Continue${onto}`;
+  }
+}
+
+export function isGenericPathName(name: string | null) {
+  if (!name) return true;
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) return true;
+
+  const genericTerms = [
+    "walkway",
+    "crosswalk",
+    "sidewalk",
+    "path",
+    "trail",
+    "footway",
+    "pedestrian",
+    "steps",
+    "stair",
+    "bridge",
+  ];
+
+  return genericTerms.some((term) => normalized.includes(term));
+}
@@ -0,0 +1,88 @@
+import type { ElevationSample } from "../elevation/types";
+
+export const DEFAULT_PACE_S_PER_KM = 360;
+
+// Runners and walkers move under their own weight; riders roll.
+export type PaceModel = "foot" | "bike";
+
+export const PACE_LIMITS: Record<PaceModel, { min: number; max: number }> = {
+  // From a quick 2:00/km to a 20:00/km stroll.
+  foot: { min: 120, max: 1200 },
+  // From 60 km/h to a 9 km/h spin.
+  bike: { min: 60, max: 400 },
+};
+
+export function isValidPace(value: number, model: PaceModel = "foot") {
+  const { min, max } = PACE_LIMITS[model];
+  return Number.isFinite(value) && value >= min && value <= max;
+}
+
+export function paceRangeError(model: PaceModel) {
+  const { min, max } = PACE_LIMITS[model];
+  return `pace must be seconds per km from ${min} to ${max}`;
+}
+
+// Multiplier on flat pace for a grade in percent.
+//
+// On foot this follows the usual coaching rule of thumb: about 3% slower per
+// 1% of climb, and about 1.8% faster per 1% of descent down to -8%, past which
+// braking eats the gain again.
+//
+// On a bike climbing costs far more, roughly halving speed by 10%, and
+// descents are much faster until braking for corners caps them at -8%.
+export function gradePaceFactor(gradePct: number, model: PaceModel = "foot") {
+  const descent = Math.min(Math.max(-gradePct, 0), 30);
+  if (model === "bike") {
+    if (gradePct >= 0) return 1 + 0.1 * Math.min(gradePct, 30);
+    return Math.max(0.55, 1 - 0.06 * Math.min(descent, 8));
+  }
+  if (gradePct >= 0) return 1 + 0.03 * Math.min(gradePct, 30);
+  const gain = 0.018 * Math.min(descent, 8) - 0.012 * Math.max(0, descent - 8);
+  return Math.max(0.85, 1 - gain);
+}
+
+// Returns the seconds needed between two distances along the route at the
+// given flat pace, adjusted for grade wherever the elevation profile covers
+// it. Distances are in the router's meters; the profile is rescaled to them.
+export function createDurationModel(
+  totalMeters: number,
+  paceSecondsPerKm: number,
+  profile: ElevationSample[] | null,
+  model: PaceModel = "foot"
+) {
+  const secondsPerMeter = paceSecondsPerKm / 1000;
+  const flat = (fromMeters: number, toMeters: number) =>
+    Math.max(0, toMeters - fromMeters) * secondsPerMeter;
+  if (!profile || profile.length < 2 || totalMeters <= 0) return flat;
+
+  const scale = totalMeters / profile[profile.length - 1].distance_m;
+  // Route distance of each sample and the time taken to reach it.
+  const marks = [profile[0].distance_m * scale];
+  const times = [marks[0] * secondsPerMeter];
+  for (let i = 1; i < profile.length; i++) {
+    const run = profile[i].distance_m - profile[i - 1].distance_m;
+    const gradePct =
+      run > 0 ? ((profile[i].elevation_m - profile[i - 1].elevation_m) / run) * 100 : 0;
+    marks.push(profile[i].distance_m * scale);
+    times.push(times[i - 1] + run * scale * secondsPerMeter * gradePaceFactor(gradePct, model));
+  }
+
+  const timeAt = (meters: number) => {
+    if (meters <= marks[0]) return Math.max(0, meters) * secondsPerMeter;
+    const last = marks.length - 1;
+    if (meters >= marks[last]) return times[last] + (meters - marks[last]) * secondsPerMeter;
+
+    let lo = 0;
+    let hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (marks[mid] <= meters) lo = mid;
+      else hi = mid;
+    }
+    const t = (meters - marks[lo]) / (marks[hi] - marks[lo]);
+    return times[lo] + (times[hi] - times[lo]) * t;
+  };
+
+  return (fromMeters: number, toMeters: number) =>
+    Math.max(0, timeAt(toMeters) - timeAt(fromMeters));
+}
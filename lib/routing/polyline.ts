@@ -0,0 +1,57 @@
+import type { LngLatTuple } from "./types";
+
+// Google encoded polyline algorithm. Valhalla uses precision 6, Mapbox/OSRM 5.
+export function decodePolyline(encoded: string, precision = 5): LngLatTuple[] {
+  const factor = 10 ** precision;
+  const coordinates: LngLatTuple[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    coordinates.push([lng / factor, lat / factor]);
+  }
+
+  return coordinates;
+}
+
+export function encodePolyline(coordinates: LngLatTuple[], precision = 5) {
+  const factor = 10 ** precision;
+  let output = "";
+  let prevLat = 0;
+  let prevLng = 0;
+
+  const writeValue = (value: number) => {
+    let shifted = value < 0 ? ~(value << 1) : value << 1;
+    while (shifted >= 0x20) {
+      output += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+      shifted >>= 5;
+    }
+    output += String.fromCharCode(shifted + 63);
+  };
+
+  for (const [lng, lat] of coordinates) {
+    const latE = Math.round(lat * factor);
+    const lngE = Math.round(lng * factor);
+    writeValue(latE - prevLat);
+    writeValue(lngE - prevLng);
+    prevLat = latE;
+    prevLng = lngE;
+  }
+
+  return output;
+}
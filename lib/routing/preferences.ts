@@ -0,0 +1,109 @@
+// How much a runner cares about each part of the route score. Every weight
+// multiplies the generator's built-in weighting, so 1 everywhere is the
+// default ranking and 0 ignores that part entirely.
+export type ScoringPreferences = {
+  paths: number;
+  scenery: number;
+  fewer_turns: number;
+  avoid_big_roads: number;
+  distance_strictness: number;
+  // Fewer traffic lights and stop signs to wait at.
+  uninterrupted: number;
+};
+
+export type PreferenceKey = keyof ScoringPreferences;
+
+export const PREFERENCE_KEYS: PreferenceKey[] = [
+  "paths",
+  "scenery",
+  "fewer_turns",
+  "avoid_big_roads",
+  "distance_strictness",
+  "uninterrupted",
+];
+
+export const MIN_PREFERENCE_WEIGHT = 0;
+export const MAX_PREFERENCE_WEIGHT = 2;
+
+export const DEFAULT_PREFERENCES: ScoringPreferences = {
+  paths: 1,
+  scenery: 1,
+  fewer_turns: 1,
+  avoid_big_roads: 1,
+  distance_strictness: 1,
+  uninterrupted: 1,
+};
+
+export type PreferencePreset = "balanced" | "trail-lover" | "city-explorer" | "race-pace-precise";
+
+export const PREFERENCE_PRESETS: Record<PreferencePreset, ScoringPreferences> = {
+  balanced: DEFAULT_PREFERENCES,
+  // Paths, parks and water; a bit long or twisty is fine.
+  "trail-lover": {
+    paths: 2,
+    scenery: 1.6,
+    fewer_turns: 0.7,
+    avoid_big_roads: 1.5,
+    distance_strictness: 0.6,
+    uninterrupted: 1,
+  },
+  // Street grids and neighborhoods, turns welcome.
+  "city-explorer": {
+    paths: 0.4,
+    scenery: 0.8,
+    fewer_turns: 0.3,
+    avoid_big_roads: 1,
+    distance_strictness: 1,
+    uninterrupted: 0.5,
+  },
+  // Smooth, uninterrupted and as close to the target distance as possible.
+  "race-pace-precise": {
+    paths: 0.6,
+    scenery: 0.3,
+    fewer_turns: 1.8,
+    avoid_big_roads: 1.2,
+    distance_strictness: 2,
+    uninterrupted: 2,
+  },
+};
+
+function isPreferencePreset(value: string): value is PreferencePreset {
+  return Object.hasOwn(PREFERENCE_PRESETS, value);
+}
+
+export function isValidPreferenceWeight(value: number) {
+  return (
+    Number.isFinite(value) &&
+    value >= MIN_PREFERENCE_WEIGHT &&
+    value <= MAX_PREFERENCE_WEIGHT
+  );
+}
+
+// Reads a preset name and "key:weight" pairs separated by commas, e.g.
+// "paths:1.5,fewer_turns:0.5". Weights override the preset; anything left
+// out keeps its default. Returns undefined when either part is invalid.
+export function parseScoringPreferences(
+  preset: string | null,
+  value: string | null
+): ScoringPreferences | undefined {
+  let base: PreferencePreset = "balanced";
+  if (preset) {
+    if (!isPreferencePreset(preset)) return undefined;
+    base = preset;
+  }
+  const preferences = { ...PREFERENCE_PRESETS[base] };
+  if (!value) return preferences;
+
+  for (const pair of value.split(",")) {
+    const [key, weight] = pair.split(":");
+    const parsed = Number(weight);
+    if (!PREFERENCE_KEYS.includes(key as PreferenceKey)) return undefined;
+    if (!weight?.trim() || !isValidPreferenceWeight(parsed)) return undefined;
+    preferences[key as PreferenceKey] = parsed;
+  }
+  return preferences;
+}
+
+export function formatScoringPreferences(preferences: ScoringPreferences) {
+  return PREFERENCE_KEYS.map((key) => `${key}:${preferences[key]}`).join(",");
+}
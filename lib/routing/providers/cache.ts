@@ -0,0 +1,144 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  DirectionsRequestOptions,
+  DirectionsResult,
+  RoutingProvider,
+  RoutingWaypoint,
+} from "../types";
+
+export type DirectionsCacheStore = {
+  name: string;
+  get(key: string): Promise<DirectionsResult | null>;
+  set(key: string, result: DirectionsResult, ttlMs: number): Promise<void>;
+};
+
+export type DirectionsCacheCounters = {
+  hits: number;
+  misses: number;
+};
+
+type CacheEntry = {
+  expires_at: number;
+  result: DirectionsResult;
+};
+
+// Waypoints are snapped to `precision` decimal places (4 is about 11 m), so
+// generations from the same meeting spot keep asking for the same routes.
+// The provider is part of the key, so switching routers doesn't serve the
+// old one's routes from a file cache.
+export function directionsCacheKey(
+  providerName: string,
+  waypoints: RoutingWaypoint[],
+  options: DirectionsRequestOptions,
+  precision: number
+) {
+  const snap = (value: number) => value.toFixed(precision);
+  const coords = waypoints.map((c) => `${snap(c.lng)},${snap(c.lat)}`).join(";");
+  const avoid = (options.avoidZones ?? [])
+    .map((zone) => zone.map(([lng, lat]) => `${snap(lng)},${snap(lat)}`).join(" "))
+    .join("|");
+
+  return createHash("sha1")
+    .update(
+      `${providerName}|${options.profile ?? "walking"}|${coords}|${avoid}${
+        options.accessible ? "|accessible" : ""
+      }`
+    )
+    .digest("hex");
+}
+
+// Least-recently-used entries are dropped once the cache holds maxEntries.
+export function createMemoryCacheStore(config: {
+  maxEntries: number;
+}): DirectionsCacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (entry.expires_at <= Date.now()) return null;
+      // Re-inserting moves the entry to the most recently used end.
+      entries.set(key, entry);
+      return entry.result;
+    },
+    async set(key, result, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { expires_at: Date.now() + ttlMs, result });
+
+      while (entries.size > config.maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+// Keeps one JSON file per entry so the cache survives restarts.
+export function createFileCacheStore(config: { dir: string }): DirectionsCacheStore {
+  const entryPath = (key: string) => path.join(config.dir, `${key}.json`);
+
+  return {
+    name: "file",
+    async get(key) {
+      let entry: CacheEntry;
+      try {
+        entry = JSON.parse(await readFile(entryPath(key), "utf8")) as CacheEntry;
+      } catch {
+        return null;
+      }
+
+      if (entry.expires_at <= Date.now()) {
+        await rm(entryPath(key), { force: true }).catch(() => undefined);
+        return null;
+      }
+      return entry.result;
+    },
+    async set(key, result, ttlMs) {
+      const entry: CacheEntry = { expires_at: Date.now() + ttlMs, result };
+      try {
+        await mkdir(config.dir, { recursive: true });
+        await writeFile(entryPath(key), JSON.stringify(entry));
+      } catch (err) {
+        console.error("Could not write directions cache entry", err);
+      }
+    },
+  };
+}
+
+// Answers repeated requests from the store and counts hits and misses.
+// Empty results aren't cached so a router hiccup isn't remembered.
+export function withDirectionsCache(
+  provider: RoutingProvider,
+  config: {
+    store: DirectionsCacheStore;
+    ttlMs: number;
+    precision: number;
+    counters: DirectionsCacheCounters;
+  }
+): RoutingProvider {
+  return {
+    name: provider.name,
+    async getDirections(waypoints, options = {}) {
+      const key = directionsCacheKey(provider.name, waypoints, options, config.precision);
+      const cached = await config.store.get(key);
+      if (cached) {
+        config.counters.hits++;
+        return cached;
+      }
+
+      config.counters.misses++;
+      const result = await provider.getDirections(waypoints, options);
+      if (result.routes.length > 0) {
+        await config.store.set(key, result, config.ttlMs);
+      }
+      return result;
+    },
+  };
+}
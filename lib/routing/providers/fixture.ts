@@ -0,0 +1,131 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { distanceMeters } from "../geo";
+import type {
+  DirectionsResult,
+  RoutingProfile,
+  RoutingProvider,
+  RoutingWaypoint,
+} from "../types";
+
+type FixtureRecording = {
+  provider: string;
+  profile: RoutingProfile;
+  waypoints: RoutingWaypoint[];
+  result: DirectionsResult;
+  recorded_at: string;
+};
+
+function fixtureKey(waypoints: RoutingWaypoint[], profile: RoutingProfile) {
+  const coords = waypoints
+    .map((c) => `${c.lng.toFixed(5)},${c.lat.toFixed(5)}`)
+    .join(";");
+  return createHash("sha1").update(`${profile}|${coords}`).digest("hex");
+}
+
+function waypointDistanceMeters(a: RoutingWaypoint[], b: RoutingWaypoint[]) {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += distanceMeters([a[i].lng, a[i].lat], [b[i].lng, b[i].lat]);
+  }
+  return total;
+}
+
+async function loadRecordings(dir: string) {
+  const recordings = new Map<string, FixtureRecording>();
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return recordings;
+  }
+
+  for (const file of files) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const recording = JSON.parse(
+        await readFile(path.join(dir, file), "utf8")
+      ) as FixtureRecording;
+      recordings.set(fixtureKey(recording.waypoints, recording.profile), recording);
+    } catch (err) {
+      console.error(`Skipping unreadable routing fixture ${file}`, err);
+    }
+  }
+
+  return recordings;
+}
+
+// Serves routes recorded by withFixtureRecording. Generated waypoints are
+// random, so unless `strict` is set a miss falls back to the recording whose
+// waypoints are closest, which is enough to exercise the scoring offline.
+export function createFixtureProvider(config: {
+  dir: string;
+  strict?: boolean;
+}): RoutingProvider {
+  let recordingsPromise: Promise<Map<string, FixtureRecording>> | null = null;
+
+  return {
+    name: "fixture",
+    async getDirections(waypoints, options = {}): Promise<DirectionsResult> {
+      const profile = options.profile ?? "walking";
+      recordingsPromise ??= loadRecordings(config.dir);
+      const recordings = await recordingsPromise;
+
+      const exact = recordings.get(fixtureKey(waypoints, profile));
+      if (exact) return exact.result;
+      if (config.strict) {
+        throw new Error("No recorded route fixture for these waypoints.");
+      }
+
+      let nearest: FixtureRecording | null = null;
+      let nearestMeters = Infinity;
+      for (const recording of recordings.values()) {
+        if (recording.profile !== profile) continue;
+        if (recording.waypoints.length !== waypoints.length) continue;
+        const meters = waypointDistanceMeters(recording.waypoints, waypoints);
+        if (meters < nearestMeters) {
+          nearest = recording;
+          nearestMeters = meters;
+        }
+      }
+
+      if (!nearest) {
+        throw new Error(`No route fixtures found in ${config.dir}.`);
+      }
+      return nearest.result;
+    },
+  };
+}
+
+export function withFixtureRecording(
+  provider: RoutingProvider,
+  config: { dir: string }
+): RoutingProvider {
+  return {
+    name: provider.name,
+    async getDirections(waypoints, options = {}) {
+      const result = await provider.getDirections(waypoints, options);
+      const profile = options.profile ?? "walking";
+      const recording: FixtureRecording = {
+        provider: provider.name,
+        profile,
+        waypoints,
+        result,
+        recorded_at: new Date().toISOString(),
+      };
+
+      try {
+        await mkdir(config.dir, { recursive: true });
+        await writeFile(
+          path.join(config.dir, `${fixtureKey(waypoints, profile)}.json`),
+          JSON.stringify(recording)
+        );
+      } catch (err) {
+        console.error("Could not record routing fixture", err);
+      }
+
+      return result;
+    },
+  };
+}
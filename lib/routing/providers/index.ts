@@ -0,0 +1,170 @@
+import path from "node:path";
+import type { RoutingProvider } from "../types";
+import {
+  createFileCacheStore,
+  createMemoryCacheStore,
+  withDirectionsCache,
+  type DirectionsCacheCounters,
+  type DirectionsCacheStore,
+} from "./cache";
+import { createFixtureProvider, withFixtureRecording } from "./fixture";
+import { createMapboxProvider } from "./mapbox";
+import { createOsrmProvider } from "./osrm";
+import { createValhallaProvider } from "./valhalla";
+
+type BaseProviderResult =
+  | { ok: true; provider: RoutingProvider }
+  | { ok: false; reason: string };
+
+type CacheConfigResult =
+  | { ok: true; store: DirectionsCacheStore | null; ttlMs: number; precision: number }
+  | { ok: false; reason: string };
+
+type ProviderConfigResult =
+  | {
+      ok: true;
+      provider: RoutingProvider;
+      // Hit/miss counts for this provider instance, or null when uncached.
+      cache: DirectionsCacheCounters | null;
+    }
+  | { ok: false; reason: string };
+
+const DEFAULT_FIXTURE_DIR = "fixtures/routing";
+const DEFAULT_CACHE_DIR = ".cache/directions";
+const DEFAULT_CACHE_TTL_S = 24 * 60 * 60;
+const DEFAULT_CACHE_PRECISION = 4;
+const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+// Shared across requests so repeated generations can hit it.
+let memoryStore: { maxEntries: number; store: DirectionsCacheStore } | null = null;
+
+function parseCacheNumber(value: string | undefined, fallback: number) {
+  if (value === undefined || value.trim() === "") return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function createBaseProvider(env: NodeJS.ProcessEnv): BaseProviderResult {
+  const providerName = (env.ROUTING_PROVIDER || "mapbox").trim().toLowerCase();
+
+  switch (providerName) {
+    case "mapbox": {
+      const token = env.MAPBOX_SECRET_TOKEN;
+      if (!token) return { ok: false, reason: "Missing MAPBOX_SECRET_TOKEN" };
+      return { ok: true, provider: createMapboxProvider({ token }) };
+    }
+    case "osrm": {
+      const baseUrl = env.OSRM_BASE_URL;
+      if (!baseUrl) return { ok: false, reason: "Missing OSRM_BASE_URL" };
+      return {
+        ok: true,
+        provider: createOsrmProvider({
+          baseUrl,
+          profiles: {
+            ...(env.OSRM_PROFILE ? { walking: env.OSRM_PROFILE } : {}),
+            ...(env.OSRM_BIKE_PROFILE ? { cycling: env.OSRM_BIKE_PROFILE } : {}),
+          },
+        }),
+      };
+    }
+    case "valhalla": {
+      const baseUrl = env.VALHALLA_BASE_URL;
+      if (!baseUrl) return { ok: false, reason: "Missing VALHALLA_BASE_URL" };
+      return {
+        ok: true,
+        provider: createValhallaProvider({
+          baseUrl,
+          costing: {
+            ...(env.VALHALLA_COSTING ? { walking: env.VALHALLA_COSTING } : {}),
+            ...(env.VALHALLA_BIKE_COSTING ? { cycling: env.VALHALLA_BIKE_COSTING } : {}),
+          },
+        }),
+      };
+    }
+    case "fixture":
+      return {
+        ok: true,
+        provider: createFixtureProvider({
+          dir: path.resolve(env.ROUTING_FIXTURE_DIR || DEFAULT_FIXTURE_DIR),
+          strict: env.ROUTING_FIXTURE_STRICT === "1",
+        }),
+      };
+    default:
+      return { ok: false, reason: `Unknown ROUTING_PROVIDER "${providerName}"` };
+  }
+}
+
+// Directions cache settings. Fixtures are already local, so they skip the
+// cache unless one is asked for explicitly.
+function getCacheConfig(env: NodeJS.ProcessEnv, providerName: string): CacheConfigResult {
+  const fallback = providerName === "fixture" ? "none" : "memory";
+  const cacheName = (env.DIRECTIONS_CACHE || fallback).trim().toLowerCase();
+
+  const ttlS = parseCacheNumber(env.DIRECTIONS_CACHE_TTL_S, DEFAULT_CACHE_TTL_S);
+  if (ttlS === null) {
+    return { ok: false, reason: "DIRECTIONS_CACHE_TTL_S must be a whole number of seconds" };
+  }
+  const precision = parseCacheNumber(env.DIRECTIONS_CACHE_PRECISION, DEFAULT_CACHE_PRECISION);
+  if (precision === null || precision > 6) {
+    return { ok: false, reason: "DIRECTIONS_CACHE_PRECISION must be between 0 and 6" };
+  }
+  const ttlMs = ttlS * 1000;
+
+  switch (cacheName) {
+    case "none":
+      return { ok: true, store: null, ttlMs, precision };
+    case "memory": {
+      const maxEntries = parseCacheNumber(
+        env.DIRECTIONS_CACHE_MAX_ENTRIES,
+        DEFAULT_CACHE_MAX_ENTRIES
+      );
+      if (!maxEntries) {
+        return { ok: false, reason: "DIRECTIONS_CACHE_MAX_ENTRIES must be a positive integer" };
+      }
+      if (memoryStore?.maxEntries !== maxEntries) {
+        memoryStore = { maxEntries, store: createMemoryCacheStore({ maxEntries }) };
+      }
+      return { ok: true, store: memoryStore.store, ttlMs, precision };
+    }
+    case "file": {
+      const dir = path.resolve(env.DIRECTIONS_CACHE_DIR || DEFAULT_CACHE_DIR);
+      return { ok: true, store: createFileCacheStore({ dir }), ttlMs, precision };
+    }
+    default:
+      return { ok: false, reason: `Unknown DIRECTIONS_CACHE "${cacheName}"` };
+  }
+}
+
+// Picks the router from environment variables:
+//   ROUTING_PROVIDER=mapbox|osrm|valhalla|fixture (default mapbox)
+//   ROUTING_FIXTURE_RECORD=1 saves every live response for the fixture provider.
+//   DIRECTIONS_CACHE=memory|file|none (default memory) sits in front of it.
+export function getRoutingProvider(
+  env: NodeJS.ProcessEnv = process.env
+): ProviderConfigResult {
+  const base = createBaseProvider(env);
+  if (!base.ok) return base;
+  let provider = base.provider;
+
+  if (env.ROUTING_FIXTURE_RECORD === "1" && provider.name !== "fixture") {
+    provider = withFixtureRecording(provider, {
+      dir: path.resolve(env.ROUTING_FIXTURE_DIR || DEFAULT_FIXTURE_DIR),
+    });
+  }
+
+  const cacheConfig = getCacheConfig(env, provider.name);
+  if (!cacheConfig.ok) return cacheConfig;
+  if (!cacheConfig.store) return { ok: true, provider, cache: null };
+
+  const counters: DirectionsCacheCounters = { hits: 0, misses: 0 };
+  return {
+    ok: true,
+    provider: withDirectionsCache(provider, {
+      store: cacheConfig.store,
+      ttlMs: cacheConfig.ttlMs,
+      precision: cacheConfig.precision,
+      counters,
+    }),
+    cache: counters,
+  };
+}
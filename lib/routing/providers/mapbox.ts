@@ -0,0 +1,25 @@
+import type { DirectionsResult, RoutingProfile, RoutingProvider } from "../types";
+import { formatOsrmCoordinates, normalizeOsrmRoute, type OsrmResponse } from "./osrm";
+
+const MAPBOX_PROFILES: Record<RoutingProfile, string> = {
+  walking: "mapbox/walking",
+  cycling: "mapbox/cycling",
+};
+
+export function createMapboxProvider(config: { token: string }): RoutingProvider {
+  return {
+    name: "mapbox",
+    async getDirections(waypoints, options = {}): Promise<DirectionsResult> {
+      const profile = MAPBOX_PROFILES[options.profile ?? "walking"];
+      const url =
+        `https://api.mapbox.com/directions/v5/${profile}/${formatOsrmCoordinates(waypoints)}` +
+        `?geometries=geojson&overview=full&steps=true&access_token=${config.token}`;
+
+      const res = await fetch(url, { signal: options.signal });
+      if (!res.ok) throw new Error(`Directions API error: ${res.status}`);
+      const data = (await res.json()) as OsrmResponse;
+
+      return { routes: (data.routes ?? []).map(normalizeOsrmRoute) };
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { describeManeuver } from "../maneuvers";
+import { annotationsFromTags } from "../road-class";
+import type {
+  DirectionsResult,
+  LngLatTuple,
+  NormalizedRoute,
+  RoutingProfile,
+  RoutingProvider,
+  RoutingWaypoint,
+} from "../types";
+
+// Mapbox Directions v5 is a superset of the OSRM response format, so both
+// adapters share these types and the normalizer below.
+export type OsrmStep = {
+  name?: string;
+  distance?: number;
+  duration?: number;
+  maneuver?: {
+    instruction?: string;
+    location?: LngLatTuple;
+    type?: string;
+    modifier?: string;
+  };
+  // Each intersection describes the way leaving it. Stock OSRM profiles only
+  // tag motorways, tolls and ferries; custom profiles can add road classes
+  // and surfaces. Mapbox only adds its street class on driving profiles, so
+  // walking and cycling routes usually come back without any.
+  intersections?: {
+    location?: LngLatTuple;
+    bearings?: number[];
+    classes?: string[];
+    mapbox_streets_v8?: { class?: string };
+    // Mapbox driving profiles only.
+    traffic_signal?: boolean;
+    stop_sign?: boolean;
+    yield_sign?: boolean;
+  }[];
+};
+
+export type OsrmLeg = {
+  distance?: number;
+  duration?: number;
+  steps?: OsrmStep[];
+};
+
+export type OsrmRoute = {
+  distance: number;
+  duration?: number;
+  geometry: {
+    coordinates: LngLatTuple[];
+  };
+  legs?: OsrmLeg[];
+};
+
+export type OsrmResponse = {
+  code?: string;
+  message?: string;
+  routes?: OsrmRoute[];
+};
+
+const OSRM_PROFILES: Record<RoutingProfile, string> = {
+  walking: "foot",
+  cycling: "bike",
+};
+
+export function normalizeOsrmRoute(route: OsrmRoute): NormalizedRoute {
+  return {
+    distance_m: route.distance ?? 0,
+    duration_s: route.duration ?? 0,
+    coordinates: route.geometry?.coordinates ?? [],
+    legs: (route.legs ?? []).map((leg) => ({
+      distance_m: leg.distance ?? 0,
+      duration_s: leg.duration ?? 0,
+      steps: (leg.steps ?? []).map((step) => {
+        const name = step.name?.trim() || null;
+        const maneuver = {
+          type: step.maneuver?.type ?? null,
+          modifier: step.maneuver?.modifier ?? null,
+          instruction: step.maneuver?.instruction?.trim() || null,
+          location: step.maneuver?.location ?? null,
+        };
+        if (!maneuver.instruction) {
+          maneuver.instruction = describeManeuver(maneuver, name);
+        }
+        // The first intersection is where the step starts, so its outgoing
+        // way is the one the step follows.
+        const intersection = step.intersections?.[0];
+        return {
+          name,
+          distance_m: step.distance ?? 0,
+          duration_s: step.duration ?? 0,
+          maneuver,
+          annotations: intersection
+            ? annotationsFromTags([
+                intersection.mapbox_streets_v8?.class,
+                ...(intersection.classes ?? []),
+              ])
+            : undefined,
+          intersections: step.intersections?.map((junction) => ({
+            location: junction.location ?? null,
+            legs: junction.bearings?.length ?? 0,
+            traffic_signal: junction.traffic_signal ?? null,
+            stop_sign:
+              junction.stop_sign === undefined && junction.yield_sign === undefined
+                ? null
+                : Boolean(junction.stop_sign || junction.yield_sign),
+          })),
+        };
+      }),
+    })),
+  };
+}
+
+export function formatOsrmCoordinates(waypoints: RoutingWaypoint[]) {
+  return waypoints.map((c) => `${c.lng},${c.lat}`).join(";");
+}
+
+export function createOsrmProvider(config: {
+  baseUrl: string;
+  profiles?: Partial<Record<RoutingProfile, string>>;
+}): RoutingProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "osrm",
+    async getDirections(waypoints, options = {}): Promise<DirectionsResult> {
+      const profile = options.profile ?? "walking";
+      const osrmProfile = config.profiles?.[profile] ?? OSRM_PROFILES[profile];
+      const url =
+        `${baseUrl}/route/v1/${osrmProfile}/${formatOsrmCoordinates(waypoints)}` +
+        `?geometries=geojson&overview=full&steps=true`;
+
+      const res = await fetch(url, { signal: options.signal });
+      if (!res.ok) throw new Error(`OSRM route error: ${res.status}`);
+      const data = (await res.json()) as OsrmResponse;
+      if (data.code && data.code !== "Ok") {
+        throw new Error(`OSRM route error: ${data.message || data.code}`);
+      }
+
+      return { routes: (data.routes ?? []).map(normalizeOsrmRoute) };
+    },
+  };
+}
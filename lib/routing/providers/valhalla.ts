@@ -0,0 +1,173 @@
+import { decodePolyline } from "../polyline";
+import type {
+  DirectionsResult,
+  LngLatTuple,
+  NormalizedLeg,
+  NormalizedRoute,
+  RouteManeuver,
+  RoutingProfile,
+  RoutingProvider,
+  StepAnnotations,
+} from "../types";
+
+type ValhallaManeuver = {
+  type?: number;
+  instruction?: string;
+  street_names?: string[];
+  length?: number; // km, because we request kilometers
+  time?: number; // seconds
+  begin_shape_index?: number;
+  // Any part of the maneuver is unpaved or badly paved.
+  rough?: boolean;
+  // Any part of the maneuver is on a highway.
+  highway?: boolean;
+};
+
+type ValhallaLeg = {
+  shape?: string;
+  maneuvers?: ValhallaManeuver[];
+  summary?: { length?: number; time?: number };
+};
+
+type ValhallaResponse = {
+  trip?: {
+    legs?: ValhallaLeg[];
+    summary?: { length?: number; time?: number };
+  };
+  error?: string;
+};
+
+const VALHALLA_COSTING: Record<RoutingProfile, string> = {
+  walking: "pedestrian",
+  cycling: "bicycle",
+};
+
+// Valhalla maneuver type codes mapped onto the OSRM type/modifier vocabulary
+// the scorers understand. Codes not listed here become a plain "continue".
+const VALHALLA_MANEUVER_TYPES: Record<number, [string, string | null]> = {
+  1: ["depart", null],
+  2: ["depart", "right"],
+  3: ["depart", "left"],
+  4: ["arrive", null],
+  5: ["arrive", "right"],
+  6: ["arrive", "left"],
+  7: ["new name", "straight"],
+  8: ["continue", "straight"],
+  9: ["turn", "slight right"],
+  10: ["turn", "right"],
+  11: ["turn", "sharp right"],
+  12: ["turn", "uturn"],
+  13: ["turn", "uturn"],
+  14: ["turn", "sharp left"],
+  15: ["turn", "left"],
+  16: ["turn", "slight left"],
+  17: ["on ramp", "straight"],
+  18: ["on ramp", "right"],
+  19: ["on ramp", "left"],
+  20: ["off ramp", "right"],
+  21: ["off ramp", "left"],
+  22: ["fork", "straight"],
+  23: ["fork", "right"],
+  24: ["fork", "left"],
+  25: ["merge", "straight"],
+  26: ["roundabout", null],
+  27: ["roundabout", null],
+  37: ["merge", "right"],
+  38: ["merge", "left"],
+};
+
+// Valhalla only flags maneuvers, so a smooth one could still be any surface
+// and a non-highway one any class.
+function toAnnotations(maneuver: ValhallaManeuver): StepAnnotations | undefined {
+  if (!maneuver.rough && !maneuver.highway) return undefined;
+  return {
+    road_class: maneuver.highway ? "motorway" : null,
+    surface: maneuver.rough ? "unpaved" : null,
+    footway: maneuver.highway ? false : null,
+    stairs: maneuver.highway ? false : null,
+  };
+}
+
+function toManeuver(maneuver: ValhallaManeuver, shape: LngLatTuple[]): RouteManeuver {
+  const [type, modifier] = VALHALLA_MANEUVER_TYPES[maneuver.type ?? -1] ?? [
+    "continue",
+    null,
+  ];
+  const location = shape[maneuver.begin_shape_index ?? -1] ?? null;
+
+  return {
+    type,
+    modifier,
+    instruction: maneuver.instruction?.trim() || null,
+    location,
+  };
+}
+
+function normalizeValhallaTrip(legs: ValhallaLeg[]): NormalizedRoute {
+  const coordinates: LngLatTuple[] = [];
+  const normalizedLegs: NormalizedLeg[] = [];
+
+  for (const leg of legs) {
+    const shape = leg.shape ? decodePolyline(leg.shape, 6) : [];
+    // Consecutive legs share their boundary point.
+    coordinates.push(...(coordinates.length > 0 ? shape.slice(1) : shape));
+
+    normalizedLegs.push({
+      distance_m: (leg.summary?.length ?? 0) * 1000,
+      duration_s: leg.summary?.time ?? 0,
+      steps: (leg.maneuvers ?? []).map((maneuver) => ({
+        name: maneuver.street_names?.[0]?.trim() || null,
+        distance_m: (maneuver.length ?? 0) * 1000,
+        duration_s: maneuver.time ?? 0,
+        maneuver: toManeuver(maneuver, shape),
+        annotations: toAnnotations(maneuver),
+      })),
+    });
+  }
+
+  return {
+    distance_m: normalizedLegs.reduce((sum, leg) => sum + leg.distance_m, 0),
+    duration_s: normalizedLegs.reduce((sum, leg) => sum + leg.duration_s, 0),
+    coordinates,
+    legs: normalizedLegs,
+  };
+}
+
+export function createValhallaProvider(config: {
+  baseUrl: string;
+  costing?: Partial<Record<RoutingProfile, string>>;
+}): RoutingProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "valhalla",
+    async getDirections(waypoints, options = {}): Promise<DirectionsResult> {
+      const profile = options.profile ?? "walking";
+      const costing = config.costing?.[profile] ?? VALHALLA_COSTING[profile];
+      const body = {
+        locations: waypoints.map((c) => ({ lat: c.lat, lon: c.lng, type: "break" })),
+        costing,
+        directions_options: { units: "kilometers" },
+        // Wheelchair routing avoids steps and steep or rough ways.
+        ...(options.accessible && costing === "pedestrian"
+          ? { costing_options: { pedestrian: { type: "wheelchair" } } }
+          : {}),
+        ...(options.avoidZones?.length ? { exclude_polygons: options.avoidZones } : {}),
+      };
+
+      const res = await fetch(`${baseUrl}/route`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: options.signal,
+      });
+      if (!res.ok) throw new Error(`Valhalla route error: ${res.status}`);
+      const data = (await res.json()) as ValhallaResponse;
+      if (data.error) throw new Error(`Valhalla route error: ${data.error}`);
+
+      const legs = data.trip?.legs ?? [];
+      if (legs.length === 0) return { routes: [] };
+      return { routes: [normalizeValhallaTrip(legs)] };
+    },
+  };
+}
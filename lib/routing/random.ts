@@ -0,0 +1,32 @@
+export type RandomFn = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+export function isValidSeed(seed: number) {
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+}
+
+export function createSeed() {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+// mulberry32: tiny, fast and plenty random for picking route shapes.
+export function createRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Independent stream for one part of a seeded run (e.g. one bearing try),
+// so results don't depend on the order concurrent work happens to start in.
+export function deriveSeed(seed: number, stream: number) {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
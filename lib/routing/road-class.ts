@@ -0,0 +1,97 @@
+import type { RoadClass, StepAnnotations, SurfaceType } from "./types";
+
+// OSM highway values, plus the Mapbox Streets classes that differ from them.
+const ROAD_CLASSES: Record<string, RoadClass> = {
+  motorway: "motorway",
+  motorway_link: "motorway",
+  trunk: "motorway",
+  trunk_link: "motorway",
+  primary: "major",
+  primary_link: "major",
+  secondary: "major",
+  secondary_link: "major",
+  tertiary: "minor",
+  tertiary_link: "minor",
+  residential: "minor",
+  unclassified: "minor",
+  living_street: "minor",
+  road: "minor",
+  street: "minor",
+  street_limited: "minor",
+  service: "service",
+  track: "track",
+  path: "path",
+  bridleway: "path",
+  cycleway: "path",
+  footway: "footway",
+  pedestrian: "footway",
+  steps: "footway",
+  sidewalk: "footway",
+  crossing: "footway",
+};
+
+// OSM surface values grouped the way runners (and stroller pushers) care.
+const SURFACES: Record<string, SurfaceType> = {
+  paved: "paved",
+  asphalt: "paved",
+  concrete: "paved",
+  "concrete:plates": "paved",
+  "concrete:lanes": "paved",
+  paving_stones: "paved",
+  sett: "paved",
+  bricks: "paved",
+  chipseal: "paved",
+  metal: "paved",
+  wood: "paved",
+  gravel: "gravel",
+  fine_gravel: "gravel",
+  compacted: "gravel",
+  pebblestone: "gravel",
+  unpaved: "unpaved",
+  dirt: "unpaved",
+  earth: "unpaved",
+  ground: "unpaved",
+  grass: "unpaved",
+  mud: "unpaved",
+  sand: "unpaved",
+  woodchips: "unpaved",
+  rock: "unpaved",
+};
+
+export function toRoadClass(value: string | null | undefined): RoadClass | null {
+  if (!value) return null;
+  return ROAD_CLASSES[value.trim().toLowerCase()] ?? null;
+}
+
+export function toSurface(value: string | null | undefined): SurfaceType | null {
+  if (!value) return null;
+  return SURFACES[value.trim().toLowerCase()] ?? null;
+}
+
+// Most roads and sidewalks are paved and most tracks are gravel; a path
+// could be anything, so it stays unknown.
+export function defaultSurface(roadClass: RoadClass | null): SurfaceType | null {
+  if (!roadClass || roadClass === "path") return null;
+  return roadClass === "track" ? "gravel" : "paved";
+}
+
+// Reads annotations from a list of tags such as OSRM intersection classes or
+// a Mapbox Streets class. The first recognized road class and surface win.
+// Returns undefined when none of the tags mean anything here.
+export function annotationsFromTags(tags: Array<string | null | undefined>) {
+  let road_class: RoadClass | null = null;
+  let surface: SurfaceType | null = null;
+  for (const tag of tags) {
+    road_class ??= toRoadClass(tag);
+    surface ??= toSurface(tag);
+  }
+  if (!road_class && !surface) return undefined;
+
+  const annotations: StepAnnotations = {
+    road_class,
+    surface,
+    footway: road_class ? road_class === "footway" : null,
+    stairs: road_class ? tags.includes("steps") : null,
+  };
+  return annotations;
+}
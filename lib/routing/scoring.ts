@@ -0,0 +1,842 @@
+import { getRouteElevationStats } from "../elevation/profile";
+import type { ElevationSource, ElevationStats, HillPreference } from "../elevation/types";
+import { getAvoidZoneStats, type AvoidZone } from "./avoid";
+import { distanceMeters } from "./geo";
+import { isGenericPathName } from "./maneuvers";
+import type { ScoringPreferences } from "./preferences";
+import { defaultSurface } from "./road-class";
+import type { NormalizedRoute, NormalizedStep, SurfacePreference, SurfaceType } from "./types";
+import type { RouteMode } from "./waypoints";
+
+export type RouteQuality = {
+  score: number;
+  confidence: "strong" | "solid" | "mixed";
+  distance_diff_km: number;
+  overlap_penalty_km: number;
+  smoothness_penalty_km: number;
+  path_ratio: number;
+  scenic_ratio: number;
+  arterial_ratio: number;
+  turn_count: number;
+  ascent_m: number | null;
+  descent_m: number | null;
+  max_grade_pct: number | null;
+  hill_penalty_km: number;
+  avoid_zone_m: number;
+  // Share of the distance on each surface, from router annotations where
+  // available.
+  surface_breakdown: SurfaceBreakdown;
+  surface_penalty_km: number;
+  // Null when the router doesn't report lights and signs.
+  traffic_signals: number | null;
+  stop_signs: number | null;
+  major_crossings: number | null;
+  // Expected time spent waiting at lights and signs.
+  stop_time_s: number | null;
+  stairs: number;
+  // No stairs, rough surfaces or steep grades that we know of.
+  accessible: boolean;
+  // What accessible mode couldn't avoid, or null when it didn't have to
+  // settle. Left for the client to word in the runner's units.
+  accessibility_issues: AccessibilityIssues | null;
+  highlight: string;
+  warnings: string[];
+};
+
+export type AccessibilityIssues = {
+  stairs: number;
+  // Unpaved or gravel distance beyond what's tolerated, else 0.
+  rough_m: number;
+  // Steepest grade when it's over the limit, else null.
+  max_grade_pct: number | null;
+};
+
+export type ScoringContext = {
+  elevation: ElevationStats | null;
+  hills: HillPreference | null;
+  surface: SurfacePreference | null;
+  // Step-free, smooth and gentle enough for strollers and wheelchairs.
+  accessible: boolean;
+  mode: RouteMode;
+  avoidZones: AvoidZone[];
+  preferences: ScoringPreferences;
+};
+
+export type RouteMetrics = {
+  score: number;
+  routeKm: number;
+  distanceDiffKm: number;
+  weightedDistanceDiffKm: number;
+  smoothnessPenaltyKm: number;
+  overlapPenaltyKm: number;
+  hasMicroSpur: boolean;
+  pathRatio: number;
+  scenicRatio: number;
+  arterialRatio: number;
+  turnCount: number;
+  surface: SurfaceBreakdown;
+  surfacePenaltyKm: number;
+  trafficSignals: number | null;
+  stopSigns: number | null;
+  majorCrossings: number | null;
+  stopTimeS: number | null;
+  stairs: number;
+  roughMeters: number;
+  roadCrossings: number;
+  meetsAccessibility: boolean;
+  accessibilityPenaltyKm: number;
+  elevation: ElevationStats | null;
+  hillPenaltyKm: number;
+  avoidZoneMeters: number;
+  avoidZonesEntered: number;
+};
+
+function metersToKm(m: number) {
+  return m / 1000;
+}
+
+function snapCoord(value: number, precision: number) {
+  return (Math.round(value / precision) * precision).toFixed(5);
+}
+
+export function segmentKey(
+  a: [number, number],
+  b: [number, number],
+  precision = 0.0002 // ~20m
+) {
+  const aKey = `${snapCoord(a[0], precision)},${snapCoord(a[1], precision)}`;
+  const bKey = `${snapCoord(b[0], precision)},${snapCoord(b[1], precision)}`;
+  return aKey < bKey ? `${aKey}|${bKey}` : `${bKey}|${aKey}`;
+}
+
+// `returnLegStartMeters` marks where an out-and-back turns around. Retracing
+// the outward leg after that point is the whole idea, so it isn't penalized.
+function getRouteOverlapStats(
+  route: NormalizedRoute,
+  returnLegStartMeters: number | null = null
+) {
+  const coords = route.coordinates;
+  if (coords.length < 3) {
+    return {
+      penaltyKm: 0,
+      microSpurMeters: 0,
+      tailSpurMeters: 0,
+    };
+  }
+
+  // Segment key -> distance along the route where it was first used.
+  const seenSegments = new Map<string, number>();
+  const recentSegments: Array<{
+    key: string;
+    meters: number;
+    cumMetersBefore: number;
+  }> = [];
+  let totalMeters = 0;
+  let overlapMeters = 0;
+  let localBacktrackMeters = 0;
+  let repeatedRunMeters = 0;
+  let shortRepeatedRunMeters = 0;
+  let microSpurMeters = 0;
+  let tailSpurMeters = 0;
+  let repeatedRunStartMeters = 0;
+
+  const flushRepeatedRun = () => {
+    // Allow long out-and-back returns, but penalize short overlap bursts
+    // that usually come from pointless little reversals.
+    if (repeatedRunMeters > 0 && repeatedRunMeters < 180) {
+      shortRepeatedRunMeters += repeatedRunMeters;
+    }
+    // Extra penalty for short overlap bursts near the end of the route,
+    // which tend to be "just add a few meters" tails.
+    const repeatedRunProgress = totalMeters > 0 ? repeatedRunStartMeters / totalMeters : 0;
+    if (repeatedRunMeters > 0 && repeatedRunMeters < 260 && repeatedRunProgress >= 0.65) {
+      tailSpurMeters += repeatedRunMeters;
+    }
+    repeatedRunMeters = 0;
+    repeatedRunStartMeters = 0;
+  };
+
+  for (let i = 1; i < coords.length; i++) {
+    const prev = coords[i - 1];
+    const curr = coords[i];
+    const segmentMeters = distanceMeters(prev, curr);
+    if (segmentMeters < 5) continue;
+
+    totalMeters += segmentMeters;
+    const key = segmentKey(prev, curr);
+    const firstSeenMeters = seenSegments.get(key);
+
+    const isIntendedReturn =
+      returnLegStartMeters !== null &&
+      firstSeenMeters !== undefined &&
+      firstSeenMeters < returnLegStartMeters &&
+      totalMeters - segmentMeters >= returnLegStartMeters - 30;
+    if (isIntendedReturn) {
+      flushRepeatedRun();
+      continue;
+    }
+
+    if (firstSeenMeters !== undefined) {
+      overlapMeters += segmentMeters;
+      if (repeatedRunMeters === 0) {
+        repeatedRunStartMeters = totalMeters - segmentMeters;
+      }
+      repeatedRunMeters += segmentMeters;
+
+      // If a segment repeats very soon after it was first used, it's usually
+      // a tiny out-and-back spur rather than a deliberate long return.
+      const recentMatch = [...recentSegments].reverse().find((s) => s.key === key);
+      if (recentMatch) {
+        localBacktrackMeters += segmentMeters;
+
+        const enclosedMeters = totalMeters - segmentMeters - recentMatch.cumMetersBefore;
+        const isTinySpurSegment = segmentMeters <= 90;
+        const isImmediateReversalArea = enclosedMeters <= 180;
+        if (isTinySpurSegment && isImmediateReversalArea) {
+          microSpurMeters += segmentMeters;
+        }
+      }
+    } else {
+      flushRepeatedRun();
+      seenSegments.set(key, totalMeters - segmentMeters);
+    }
+
+    recentSegments.push({
+      key,
+      meters: segmentMeters,
+      cumMetersBefore: totalMeters - segmentMeters,
+    });
+    if (recentSegments.length > 14) {
+      recentSegments.shift();
+    }
+  }
+
+  flushRepeatedRun();
+
+  if (totalMeters <= 0) {
+    return {
+      penaltyKm: 0,
+      microSpurMeters,
+      tailSpurMeters,
+    };
+  }
+
+  const overlapRatio = overlapMeters / totalMeters;
+  const localBacktrackKm = localBacktrackMeters / 1000;
+  const shortRepeatedRunKm = shortRepeatedRunMeters / 1000;
+  const microSpurKm = microSpurMeters / 1000;
+  const tailSpurKm = tailSpurMeters / 1000;
+
+  // General overlap remains a small penalty. Local short reversals get
+  // extra weight because they feel much worse to run than a long return leg.
+  const penaltyKm =
+    overlapRatio * 0.9 +
+    localBacktrackKm * 3.5 +
+    shortRepeatedRunKm * 1.8 +
+    microSpurKm * 6 +
+    tailSpurKm * 9;
+
+  return {
+    penaltyKm,
+    microSpurMeters,
+    tailSpurMeters,
+  };
+}
+
+function getRouteSmoothnessPenaltyKm(route: NormalizedRoute) {
+  const steps = route.legs.flatMap((leg) => leg.steps);
+
+  let shortTurnCount = 0;
+  let totalTurnCount = 0;
+  let ultraShortTurnCount = 0;
+  let uTurnCount = 0;
+
+  for (const step of steps) {
+    const maneuverType = step.maneuver.type ?? "";
+    const maneuverModifier = step.maneuver.modifier ?? "";
+    const isTurnLike =
+      maneuverType.includes("turn") ||
+      maneuverType === "fork" ||
+      maneuverType === "roundabout";
+
+    if (!isTurnLike) continue;
+
+    totalTurnCount += 1;
+    if (maneuverModifier.includes("uturn")) {
+      uTurnCount += 1;
+    }
+    const stepDistance = step.distance_m;
+    if (stepDistance < 25) {
+      ultraShortTurnCount += 1;
+    }
+    if (stepDistance < 45) {
+      shortTurnCount += 1;
+    }
+  }
+
+  const routeKm = Math.max(metersToKm(route.distance_m), 0.1);
+  const turnDensity = totalTurnCount / routeKm;
+
+  // Convert maneuver complexity into a km-equivalent cost so distance can still dominate.
+  // Short turns and turn-dense routes are penalized more heavily.
+  return (
+    uTurnCount * 0.45 +
+    ultraShortTurnCount * 0.2 +
+    shortTurnCount * 0.14 +
+    totalTurnCount * 0.03 +
+    Math.max(0, turnDensity - 2.4) * 0.12
+  );
+}
+
+// Name keywords, only used for steps the router didn't annotate. Matched as
+// whole words so "Parkway" isn't scenic.
+const SCENIC_NAME_PATTERN =
+  /\b(park|greenway|trail|river|lake|beach|waterfront|promenade|creek|forest|seawall)s?\b/;
+const ARTERIAL_NAME_PATTERN =
+  /\b(highway|freeway|expressway|motorway|ramp|state route|county road)s?\b/;
+
+export type SurfaceBreakdown = {
+  paved: number;
+  gravel: number;
+  unpaved: number;
+  unknown: number;
+};
+
+function getStepSurface(step: NormalizedStep): SurfaceType | null {
+  const { annotations } = step;
+  if (annotations) {
+    return annotations.surface ?? defaultSurface(annotations.road_class);
+  }
+  // Without annotations a named street is almost certainly paved; a path
+  // could be anything.
+  return step.name && !isGenericPathName(step.name) ? "paved" : null;
+}
+
+function getRouteRoadFeelStats(route: NormalizedRoute) {
+  const steps = route.legs.flatMap((leg) => leg.steps);
+  let totalDistance = 0;
+  let pathDistance = 0;
+  let scenicDistance = 0;
+  let arterialDistance = 0;
+  let turnCount = 0;
+  const surfaceDistance: SurfaceBreakdown = { paved: 0, gravel: 0, unpaved: 0, unknown: 0 };
+
+  for (const step of steps) {
+    const stepDistance = Math.max(step.distance_m, 0);
+    const name = step.name?.toLowerCase() ?? "";
+    const roadClass = step.annotations?.road_class ?? null;
+    totalDistance += stepDistance;
+    surfaceDistance[getStepSurface(step) ?? "unknown"] += stepDistance;
+
+    const isTurnLike =
+      step.maneuver.type === "turn" ||
+      step.maneuver.type === "fork" ||
+      step.maneuver.type === "merge" ||
+      step.maneuver.type === "roundabout";
+
+    if (isTurnLike) {
+      turnCount += 1;
+    }
+
+    const isBigRoad = roadClass === "motorway" || roadClass === "major";
+    if (roadClass) {
+      if (roadClass === "path" || roadClass === "footway" || roadClass === "track") {
+        pathDistance += stepDistance;
+      }
+      if (isBigRoad) {
+        arterialDistance += stepDistance;
+      }
+    }
+
+    if (!name) continue;
+
+    if (!roadClass) {
+      if (isGenericPathName(name)) {
+        pathDistance += stepDistance;
+      }
+      if (ARTERIAL_NAME_PATTERN.test(name)) {
+        arterialDistance += stepDistance;
+      }
+    }
+
+    // Routers don't describe scenery, so names are all there is. A big road
+    // along a river is still a big road.
+    if (!isBigRoad && SCENIC_NAME_PATTERN.test(name)) {
+      scenicDistance += stepDistance;
+    }
+  }
+
+  if (totalDistance <= 0) {
+    return {
+      pathRatio: 0,
+      scenicRatio: 0,
+      arterialRatio: 0,
+      turnCount,
+      surface: { paved: 0, gravel: 0, unpaved: 0, unknown: 1 },
+    };
+  }
+
+  return {
+    pathRatio: pathDistance / totalDistance,
+    scenicRatio: scenicDistance / totalDistance,
+    arterialRatio: arterialDistance / totalDistance,
+    turnCount,
+    surface: {
+      paved: surfaceDistance.paved / totalDistance,
+      gravel: surfaceDistance.gravel / totalDistance,
+      unpaved: surfaceDistance.unpaved / totalDistance,
+      unknown: surfaceDistance.unknown / totalDistance,
+    },
+  };
+}
+
+// Average waits at a red light and at a stop or yield sign.
+const TRAFFIC_SIGNAL_WAIT_S = 30;
+const STOP_SIGN_WAIT_S = 5;
+
+export function countTrafficControls(step: NormalizedStep) {
+  let traffic_signals = 0;
+  let stop_signs = 0;
+  for (const intersection of step.intersections ?? []) {
+    if (intersection.traffic_signal) traffic_signals += 1;
+    else if (intersection.stop_sign) stop_signs += 1;
+  }
+  return { traffic_signals, stop_signs };
+}
+
+// Routers don't say what kind of road is being crossed, so a crossing counts
+// as major when it is controlled: quiet side streets rarely get lights or
+// stop signs for the route to wait at. When the router doesn't report
+// controls anywhere on the route the counts are unknown rather than zero.
+function getRouteCrossingStats(route: NormalizedRoute) {
+  const intersections = route.legs.flatMap((leg) =>
+    leg.steps.flatMap((step) => step.intersections ?? [])
+  );
+  const reported = intersections.some(
+    (intersection) => intersection.traffic_signal !== null || intersection.stop_sign !== null
+  );
+  if (!reported) {
+    return { trafficSignals: null, stopSigns: null, majorCrossings: null, stopTimeS: null };
+  }
+
+  let trafficSignals = 0;
+  let stopSigns = 0;
+  let majorCrossings = 0;
+
+  for (const intersection of intersections) {
+    const controlled = intersection.traffic_signal || intersection.stop_sign;
+    if (intersection.traffic_signal) trafficSignals += 1;
+    else if (intersection.stop_sign) stopSigns += 1;
+    if (controlled && intersection.legs >= 4) majorCrossings += 1;
+  }
+
+  return {
+    trafficSignals,
+    stopSigns,
+    majorCrossings,
+    stopTimeS: trafficSignals * TRAFFIC_SIGNAL_WAIT_S + stopSigns * STOP_SIGN_WAIT_S,
+  };
+}
+
+// A 1:12 ramp, about as steep as a wheelchair or loaded stroller manages.
+const ACCESSIBLE_MAX_GRADE_PCT = 8.3;
+// Short rough stretches, like a gravel park entrance, are let through.
+const ACCESSIBLE_ROUGH_TOLERANCE_M = 30;
+const STAIRS_NAME_PATTERN = /\b(steps|stairs?|stairway|staircase)\b/;
+
+function isStairs(step: NormalizedStep) {
+  const stairs = step.annotations?.stairs;
+  if (stairs !== undefined && stairs !== null) return stairs;
+  const text = `${step.name ?? ""} ${step.maneuver.instruction ?? ""}`.toLowerCase();
+  return STAIRS_NAME_PATTERN.test(text);
+}
+
+// Curb cuts aren't reported by any router, so road crossings are counted to
+// keep them few and to say how many couldn't be checked.
+function getAccessibilityStats(
+  route: NormalizedRoute,
+  surface: SurfaceBreakdown,
+  elevation: ElevationStats | null
+) {
+  let stairs = 0;
+  let roadCrossings = 0;
+  for (const step of route.legs.flatMap((leg) => leg.steps)) {
+    if (step.distance_m > 0 && isStairs(step)) stairs += 1;
+    for (const intersection of step.intersections ?? []) {
+      if (intersection.legs >= 4) roadCrossings += 1;
+    }
+  }
+  const roughMeters = (surface.unpaved + surface.gravel) * route.distance_m;
+  const excessGradePct = elevation
+    ? Math.max(0, elevation.max_grade_pct - ACCESSIBLE_MAX_GRADE_PCT)
+    : 0;
+
+  return {
+    stairs,
+    roughMeters,
+    roadCrossings,
+    meetsAccessibility:
+      stairs === 0 && roughMeters <= ACCESSIBLE_ROUGH_TOLERANCE_M && excessGradePct === 0,
+    penaltyKm:
+      stairs * 2 + metersToKm(roughMeters) * 4 + excessGradePct * 0.3 + roadCrossings * 0.02,
+  };
+}
+
+function getAsymmetricDistancePenaltyKm(routeKm: number, targetKm: number) {
+  const diffKm = routeKm - targetKm;
+
+  if (diffKm >= 0) {
+    // Slightly long is preferable to slightly short.
+    return diffKm * 0.35;
+  }
+
+  // Penalize undershooting more than overshooting.
+  return Math.abs(diffKm) * 0.95;
+}
+
+const HILL_PREFERENCES: HillPreference[] = ["flat", "rolling", "hilly"];
+
+export function parseHillPreference(value: string | null): HillPreference | null | undefined {
+  if (!value || value === "any") return null;
+  return HILL_PREFERENCES.find((pref) => pref === value);
+}
+
+const SURFACE_PREFERENCES: SurfacePreference[] = ["paved", "trail"];
+
+export function parseSurfacePreference(
+  value: string | null
+): SurfacePreference | null | undefined {
+  if (!value || value === "any") return null;
+  return SURFACE_PREFERENCES.find((pref) => pref === value);
+}
+
+// Unknown surfaces cost nothing either way, so routes without annotations
+// rank as they did before.
+function getSurfacePenaltyKm(surface: SurfaceBreakdown, preference: SurfacePreference | null) {
+  if (preference === "paved") return surface.unpaved * 1.2 + surface.gravel * 0.6;
+  if (preference === "trail") return surface.paved * 0.8;
+  return 0;
+}
+
+function getHillPenaltyKm(
+  elevation: ElevationStats | null,
+  routeKm: number,
+  hills: HillPreference | null
+) {
+  if (!elevation || !hills) return 0;
+
+  const gainPerKm = elevation.ascent_m / Math.max(routeKm, 0.1);
+
+  if (hills === "flat") {
+    // Recovery runs: any sustained climbing or a steep pitch hurts.
+    return (
+      Math.max(0, gainPerKm - 6) * 0.05 +
+      Math.max(0, elevation.max_grade_pct - 6) * 0.08
+    );
+  }
+
+  if (hills === "rolling") {
+    if (gainPerKm < 8) return (8 - gainPerKm) * 0.04;
+    if (gainPerKm > 22) return (gainPerKm - 22) * 0.04;
+    return 0;
+  }
+
+  // Hill workouts: reward climbing up to a point, penalize flat options.
+  return gainPerKm < 25 ? (25 - gainPerKm) * 0.04 : 0;
+}
+
+export async function getElevationForRoute(
+  route: NormalizedRoute,
+  source: ElevationSource | null
+) {
+  if (!source) return null;
+  try {
+    return await getRouteElevationStats(route.coordinates, source);
+  } catch (err) {
+    console.error("Elevation error", err);
+    return null;
+  }
+}
+
+// Distance along the geometry (measured the same way as the overlap stats)
+// where an out-and-back reaches its turnaround waypoint.
+function getReturnLegStartMeters(route: NormalizedRoute, mode: RouteMode) {
+  if (mode !== "out-and-back" || route.legs.length < 2) return null;
+
+  // The turnaround is the last waypoint before heading home.
+  const returnLeg = route.legs[route.legs.length - 1];
+  const outwardSteps = route.legs[route.legs.length - 2].steps;
+  const turnaround =
+    returnLeg.steps[0]?.maneuver.location ??
+    outwardSteps[outwardSteps.length - 1]?.maneuver.location ??
+    null;
+  const coords = route.coordinates;
+  if (!turnaround || coords.length < 2) return null;
+
+  let nearestIdx = 0;
+  let nearestMeters = Infinity;
+  coords.forEach((coord, idx) => {
+    const meters = distanceMeters(coord, turnaround);
+    if (meters < nearestMeters) {
+      nearestMeters = meters;
+      nearestIdx = idx;
+    }
+  });
+
+  let travelled = 0;
+  for (let i = 1; i <= nearestIdx; i++) {
+    const segmentMeters = distanceMeters(coords[i - 1], coords[i]);
+    if (segmentMeters >= 5) travelled += segmentMeters;
+  }
+  return travelled;
+}
+
+export function scoreRoute(
+  route: NormalizedRoute,
+  targetKm: number,
+  { elevation, hills, surface, accessible, mode, avoidZones, preferences }: ScoringContext
+): RouteMetrics {
+  const routeKm = metersToKm(route.distance_m);
+  const distanceDiffKm = Math.abs(routeKm - targetKm);
+  const smoothnessPenaltyKm = getRouteSmoothnessPenaltyKm(route);
+  const overlapStats = getRouteOverlapStats(
+    route,
+    getReturnLegStartMeters(route, mode)
+  );
+  const overlapPenaltyKm = overlapStats.penaltyKm;
+  const weightedDistanceDiffKm = getAsymmetricDistancePenaltyKm(routeKm, targetKm);
+  const hasMicroSpur =
+    overlapStats.microSpurMeters >= 20 || overlapStats.tailSpurMeters >= 35;
+  const roadFeel = getRouteRoadFeelStats(route);
+  const sceneryBonusKm =
+    roadFeel.pathRatio * 0.4 * preferences.paths +
+    roadFeel.scenicRatio * 0.55 * preferences.scenery;
+  const arterialPenaltyKm = roadFeel.arterialRatio * 0.75 * preferences.avoid_big_roads;
+  const hillPenaltyKm = getHillPenaltyKm(elevation, routeKm, hills);
+  const surfacePenaltyKm = getSurfacePenaltyKm(roadFeel.surface, surface);
+  const crossings = getRouteCrossingStats(route);
+  const access = getAccessibilityStats(route, roadFeel.surface, elevation);
+  const accessibilityPenaltyKm = accessible ? access.penaltyKm : 0;
+  // About 100 m of extra running per red light.
+  const interruptionPenaltyKm =
+    ((crossings.stopTimeS ?? 0) / 60) * 0.2 * preferences.uninterrupted;
+  const avoidStats = getAvoidZoneStats(route.coordinates, avoidZones);
+  // Heavy enough that any route staying outside the zones wins.
+  const avoidPenaltyKm =
+    metersToKm(avoidStats.insideMeters) * 8 + avoidStats.zonesEntered * 1.5;
+
+  return {
+    routeKm,
+    distanceDiffKm,
+    weightedDistanceDiffKm,
+    smoothnessPenaltyKm,
+    overlapPenaltyKm,
+    hasMicroSpur,
+    pathRatio: roadFeel.pathRatio,
+    scenicRatio: roadFeel.scenicRatio,
+    arterialRatio: roadFeel.arterialRatio,
+    turnCount: roadFeel.turnCount,
+    surface: roadFeel.surface,
+    surfacePenaltyKm,
+    ...crossings,
+    stairs: access.stairs,
+    roughMeters: access.roughMeters,
+    roadCrossings: access.roadCrossings,
+    meetsAccessibility: access.meetsAccessibility,
+    accessibilityPenaltyKm,
+    elevation,
+    hillPenaltyKm,
+    avoidZoneMeters: avoidStats.insideMeters,
+    avoidZonesEntered: avoidStats.zonesEntered,
+    // The reported penalties stay unweighted so confidence and warnings mean
+    // the same thing whatever the runner prefers.
+    score:
+      weightedDistanceDiffKm * preferences.distance_strictness +
+      smoothnessPenaltyKm * preferences.fewer_turns +
+      overlapPenaltyKm +
+      arterialPenaltyKm +
+      hillPenaltyKm +
+      surfacePenaltyKm +
+      interruptionPenaltyKm +
+      accessibilityPenaltyKm +
+      avoidPenaltyKm -
+      sceneryBonusKm,
+  };
+}
+
+export function getConfidence(metrics: RouteMetrics): RouteQuality["confidence"] {
+  if (
+    metrics.distanceDiffKm <= 0.25 &&
+    metrics.overlapPenaltyKm <= 0.2 &&
+    metrics.smoothnessPenaltyKm <= 0.65 &&
+    metrics.arterialRatio <= 0.08 &&
+    metrics.hillPenaltyKm <= 0.25 &&
+    metrics.surfacePenaltyKm <= 0.25 &&
+    metrics.avoidZonesEntered === 0
+  ) {
+    return "strong";
+  }
+
+  if (
+    metrics.distanceDiffKm <= 0.55 &&
+    metrics.overlapPenaltyKm <= 0.45 &&
+    metrics.smoothnessPenaltyKm <= 1.1 &&
+    metrics.arterialRatio <= 0.18 &&
+    metrics.hillPenaltyKm <= 0.6 &&
+    metrics.surfacePenaltyKm <= 0.6 &&
+    metrics.avoidZonesEntered === 0
+  ) {
+    return "solid";
+  }
+
+  return "mixed";
+}
+
+function getRouteHighlight(metrics: RouteMetrics, mode: RouteMode) {
+  if (metrics.pathRatio >= 0.35 || metrics.scenicRatio >= 0.22) {
+    return "More path-heavy and scenic than the typical option.";
+  }
+
+  if (metrics.overlapPenaltyKm <= 0.18 && metrics.smoothnessPenaltyKm <= 0.6) {
+    return mode === "loop"
+      ? "Clean loop with low backtracking and smoother turns."
+      : "Clean route with low backtracking and smoother turns.";
+  }
+
+  if (metrics.distanceDiffKm <= 0.2) {
+    return "Very close to your requested distance.";
+  }
+
+  return "Balanced option with acceptable route shape.";
+}
+
+// Candidates that fail accessibility are only kept when none passed.
+function getAccessibilityIssues(
+  metrics: RouteMetrics,
+  accessible: boolean
+): AccessibilityIssues | null {
+  if (!accessible || metrics.meetsAccessibility) return null;
+  const maxGradePct = metrics.elevation?.max_grade_pct ?? null;
+  return {
+    stairs: metrics.stairs,
+    rough_m: metrics.roughMeters > ACCESSIBLE_ROUGH_TOLERANCE_M ? Math.round(metrics.roughMeters) : 0,
+    max_grade_pct:
+      maxGradePct !== null && maxGradePct > ACCESSIBLE_MAX_GRADE_PCT
+        ? Number(maxGradePct.toFixed(1))
+        : null,
+  };
+}
+
+function getRouteWarnings(
+  metrics: RouteMetrics,
+  targetKm: number,
+  { hills, surface, accessible, mode }: Omit<
+    ScoringContext,
+    "elevation" | "avoidZones" | "preferences"
+  >
+) {
+  const warnings: string[] = [];
+
+  if (accessible && !metrics.elevation) {
+    warnings.push("Grades couldn't be checked without elevation data.");
+  }
+
+  if (accessible && metrics.roadCrossings > 0) {
+    warnings.push(
+      `Curb cuts aren't known, so check the ${
+        metrics.roadCrossings === 1 ? "road crossing" : `${metrics.roadCrossings} road crossings`
+      }.`
+    );
+  }
+
+  // Candidates that enter a zone are only kept when nothing avoided them all.
+  if (metrics.avoidZonesEntered > 0) {
+    warnings.push("Every option we found passes through an avoid zone.");
+  }
+
+  if (metrics.overlapPenaltyKm >= 0.4) {
+    warnings.push("Includes some repeated segments.");
+  }
+
+  if (metrics.smoothnessPenaltyKm >= 1.1) {
+    warnings.push("Has more tight turns than ideal.");
+  }
+
+  if (metrics.arterialRatio >= 0.12) {
+    warnings.push("May spend more time on larger roads.");
+  }
+
+  if (mode === "point-to-point" && metrics.routeKm - targetKm >= 0.6) {
+    warnings.push("The finish is farther away than your target distance.");
+  } else if (metrics.distanceDiffKm >= 0.6) {
+    warnings.push("Distance drifts from the target more than usual.");
+  }
+
+  if (hills && metrics.hillPenaltyKm >= 0.4) {
+    warnings.push(
+      hills === "flat"
+        ? "Has more climbing than a flat route should."
+        : hills === "hilly"
+          ? "Could not find much climbing nearby."
+          : "Terrain is not as rolling as requested."
+    );
+  }
+
+  if (metrics.stopTimeS !== null && metrics.stopTimeS >= 180) {
+    warnings.push(
+      `Expect about ${Math.round(metrics.stopTimeS / 60)} minutes waiting at lights and crossings.`
+    );
+  }
+
+  if (surface && metrics.surfacePenaltyKm >= 0.4) {
+    warnings.push(
+      surface === "paved"
+        ? "Includes unpaved or gravel stretches."
+        : "Mostly paved; few trails nearby."
+    );
+  }
+
+  return warnings;
+}
+
+// The per-route summary the client shows next to each option.
+export function toRouteQuality(
+  metrics: RouteMetrics,
+  targetKm: number,
+  context: Omit<ScoringContext, "elevation" | "avoidZones" | "preferences">
+): RouteQuality {
+  const { elevation } = metrics;
+
+  return {
+    score: Number(metrics.score.toFixed(3)),
+    confidence: getConfidence(metrics),
+    distance_diff_km: Number(metrics.distanceDiffKm.toFixed(2)),
+    overlap_penalty_km: Number(metrics.overlapPenaltyKm.toFixed(2)),
+    smoothness_penalty_km: Number(metrics.smoothnessPenaltyKm.toFixed(2)),
+    path_ratio: Number(metrics.pathRatio.toFixed(3)),
+    scenic_ratio: Number(metrics.scenicRatio.toFixed(3)),
+    arterial_ratio: Number(metrics.arterialRatio.toFixed(3)),
+    turn_count: metrics.turnCount,
+    ascent_m: elevation ? Math.round(elevation.ascent_m) : null,
+    descent_m: elevation ? Math.round(elevation.descent_m) : null,
+    max_grade_pct: elevation ? Number(elevation.max_grade_pct.toFixed(1)) : null,
+    hill_penalty_km: Number(metrics.hillPenaltyKm.toFixed(2)),
+    avoid_zone_m: Math.round(metrics.avoidZoneMeters),
+    surface_breakdown: {
+      paved: Number(metrics.surface.paved.toFixed(3)),
+      gravel: Number(metrics.surface.gravel.toFixed(3)),
+      unpaved: Number(metrics.surface.unpaved.toFixed(3)),
+      unknown: Number(metrics.surface.unknown.toFixed(3)),
+    },
+    surface_penalty_km: Number(metrics.surfacePenaltyKm.toFixed(2)),
+    traffic_signals: metrics.trafficSignals,
+    stop_signs: metrics.stopSigns,
+    major_crossings: metrics.majorCrossings,
+    stop_time_s: metrics.stopTimeS,
+    stairs: metrics.stairs,
+    accessible: metrics.meetsAccessibility,
+    accessibility_issues: getAccessibilityIssues(metrics, context.accessible),
+    highlight: getRouteHighlight(metrics, context.mode),
+    warnings: getRouteWarnings(metrics, targetKm, context),
+  };
+}
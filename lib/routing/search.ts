@@ -0,0 +1,60 @@
+export type SearchOptions = {
+  // Bearing tries in flight at once.
+  concurrency: number;
+  // Wall-clock budget for the whole search, in milliseconds.
+  budgetMs: number;
+};
+
+type SearchConfigResult =
+  | { ok: true; options: SearchOptions }
+  | { ok: false; reason: string };
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_BUDGET_MS = 8000;
+
+function parsePositiveInt(value: string | undefined, fallback: number) {
+  if (value === undefined || value.trim() === "") return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+// Reads the candidate search limits from environment variables:
+//   ROUTE_SEARCH_CONCURRENCY (default 4)
+//   ROUTE_SEARCH_BUDGET_MS (default 8000)
+export function getSearchOptions(
+  env: NodeJS.ProcessEnv = process.env
+): SearchConfigResult {
+  const concurrency = parsePositiveInt(env.ROUTE_SEARCH_CONCURRENCY, DEFAULT_CONCURRENCY);
+  if (concurrency === null) {
+    return { ok: false, reason: "ROUTE_SEARCH_CONCURRENCY must be a positive integer" };
+  }
+
+  const budgetMs = parsePositiveInt(env.ROUTE_SEARCH_BUDGET_MS, DEFAULT_BUDGET_MS);
+  if (budgetMs === null) {
+    return { ok: false, reason: "ROUTE_SEARCH_BUDGET_MS must be a positive integer" };
+  }
+
+  return { ok: true, options: { concurrency, budgetMs } };
+}
+
+// Runs task(0..count-1) with at most `concurrency` in flight. Tasks that
+// haven't started yet are skipped once shouldStop() returns true.
+export async function runWithConcurrency(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+) {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < count && !shouldStop()) {
+      const index = next++;
+      await task(index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, count) }, () => worker())
+  );
+}
@@ -0,0 +1,91 @@
+export type LngLatTuple = [number, number];
+
+export type RoutingWaypoint = { lng: number; lat: number };
+
+export type RoutingProfile = "walking" | "cycling";
+
+// Provider-agnostic route shape. Every adapter converts its native response
+// into this so the scoring code never has to know which router produced it.
+export type RouteManeuver = {
+  type: string | null; // OSRM vocabulary: depart, turn, fork, arrive, ...
+  modifier: string | null; // left, slight right, uturn, straight, ...
+  instruction: string | null;
+  location: LngLatTuple | null;
+};
+
+// Coarse road classes, from busiest to quietest.
+export type RoadClass = "motorway" | "major" | "minor" | "service" | "track" | "path" | "footway";
+
+export type SurfaceType = "paved" | "gravel" | "unpaved";
+
+// "paved" suits strollers and road shoes, "trail" looks for dirt and gravel.
+export type SurfacePreference = "paved" | "trail";
+
+// What the router knows about the ways a step uses. Any field can be null
+// when the router doesn't say; scoring then falls back to the street name.
+export type StepAnnotations = {
+  road_class: RoadClass | null;
+  surface: SurfaceType | null;
+  // True for sidewalks, footpaths and pedestrian streets.
+  footway: boolean | null;
+  stairs: boolean | null;
+};
+
+// A junction the step passes through, the first being where it starts.
+export type StepIntersection = {
+  location: LngLatTuple | null;
+  // Ways meeting here. Four or more means the route crosses a road rather
+  // than just meeting one.
+  legs: number;
+  // Null when the router doesn't report traffic controls at all.
+  traffic_signal: boolean | null;
+  // A stop or yield sign.
+  stop_sign: boolean | null;
+};
+
+export type NormalizedStep = {
+  name: string | null;
+  distance_m: number;
+  duration_s: number;
+  maneuver: RouteManeuver;
+  annotations?: StepAnnotations;
+  // Only routers that report junctions (Mapbox, OSRM) fill this in.
+  intersections?: StepIntersection[];
+};
+
+export type NormalizedLeg = {
+  distance_m: number;
+  duration_s: number;
+  steps: NormalizedStep[];
+};
+
+export type NormalizedRoute = {
+  distance_m: number;
+  duration_s: number;
+  coordinates: LngLatTuple[];
+  legs: NormalizedLeg[];
+};
+
+export type DirectionsResult = {
+  routes: NormalizedRoute[];
+};
+
+export type DirectionsRequestOptions = {
+  profile?: RoutingProfile;
+  // Polygons the route should stay out of. Only routers with native support
+  // use this; the generator also scores candidates against them.
+  avoidZones?: LngLatTuple[][];
+  // Ask for step-free routes. Only routers with a wheelchair mode use this;
+  // the generator also checks candidates for stairs itself.
+  accessible?: boolean;
+  // Cancels the request when the generator runs out of time.
+  signal?: AbortSignal;
+};
+
+export type RoutingProvider = {
+  name: string;
+  getDirections(
+    waypoints: RoutingWaypoint[],
+    options?: DirectionsRequestOptions
+  ): Promise<DirectionsResult>;
+};
@@ -0,0 +1,303 @@
+import { bearingDegrees, destinationPoint, distanceMeters } from "./geo";
+import type { RandomFn } from "./random";
+import type { RoutingWaypoint } from "./types";
+
+export type RouteMode = "loop" | "out-and-back" | "point-to-point";
+
+// One randomized route shape. The generator bisects `scale` between `low` and
+// `high` (km); a larger scale must always produce a longer route. Planners
+// draw from `random` so a seeded generator gets the same shape back.
+export type WaypointPlan = {
+  low: number;
+  high: number;
+  initial: number;
+  // Plans that can't be stretched (e.g. the finish is already far enough
+  // away) only need a single Directions call.
+  fixed: boolean;
+  buildWaypoints(scale: number): RoutingWaypoint[];
+};
+
+// Range of a loop's free waypoint distance from the start, as fractions of
+// the target distance.
+export type LoopRadius = { low: number; high: number; initial: number };
+
+// How the planners size their shapes; each activity brings its own.
+export type PlanBounds = {
+  loopRadius: LoopRadius;
+  // Pins already stretch the loop, so its free waypoints may sit closer in.
+  pinnedLoopRadius: LoopRadius;
+  // Roads wander; straight-line distances undershoot by roughly this factor.
+  detourFactor: number;
+};
+
+// Start with a smaller guess (roads add distance). These bounds keep it
+// stable for short and long runs.
+export const DEFAULT_PLAN_BOUNDS: PlanBounds = {
+  loopRadius: { low: 0.12, high: 0.45, initial: 0.22 },
+  pinnedLoopRadius: { low: 0.05, high: 0.45, initial: 0.2 },
+  detourFactor: 1.25,
+};
+
+function pathKm(points: RoutingWaypoint[]) {
+  let meters = 0;
+  for (let i = 1; i < points.length; i++) {
+    meters += distanceMeters(
+      [points[i - 1].lng, points[i - 1].lat],
+      [points[i].lng, points[i].lat]
+    );
+  }
+  return meters / 1000;
+}
+
+function fixedPlan(waypoints: RoutingWaypoint[]): WaypointPlan {
+  return {
+    low: 0,
+    high: 0,
+    initial: 0,
+    fixed: true,
+    buildWaypoints: () => waypoints,
+  };
+}
+
+// Sorting by bearing from the start visits points around the loop in order
+// instead of criss-crossing between them.
+function orderByBearing(
+  start: RoutingWaypoint,
+  points: RoutingWaypoint[],
+  clockwise: boolean
+) {
+  return [...points].sort((a, b) => {
+    const diff = bearingDegrees(start, a) - bearingDegrees(start, b);
+    return clockwise ? diff : -diff;
+  });
+}
+
+// Position of each point along the start -> finish line, 0 at the start and
+// 1 at the finish, using a local flat-earth approximation.
+function projectOntoCourse(
+  start: RoutingWaypoint,
+  finish: RoutingWaypoint,
+  point: RoutingWaypoint
+) {
+  const cosLat = Math.cos((start.lat * Math.PI) / 180);
+  const dx = (finish.lng - start.lng) * cosLat;
+  const dy = finish.lat - start.lat;
+  const px = (point.lng - start.lng) * cosLat;
+  const py = point.lat - start.lat;
+  const lengthSq = dx * dx + dy * dy;
+  return lengthSq > 0 ? (px * dx + py * dy) / lengthSq : 0;
+}
+
+// The widest wedge around the start with no pinned points in it; free
+// waypoints go there so the loop doesn't double back on the pins.
+function largestBearingGap(bearings: number[], random: RandomFn) {
+  if (bearings.length === 0) return { from: random() * 360, size: 360 };
+
+  const sorted = [...bearings].sort((a, b) => a - b);
+  let from = sorted[sorted.length - 1];
+  let size = sorted[0] + 360 - from;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i] - sorted[i - 1];
+    if (gap > size) {
+      from = sorted[i - 1];
+      size = gap;
+    }
+  }
+  return { from, size };
+}
+
+export function planLoop(
+  start: RoutingWaypoint,
+  targetKm: number,
+  pins: RoutingWaypoint[] = [],
+  random: RandomFn = Math.random,
+  bounds: PlanBounds = DEFAULT_PLAN_BOUNDS
+): WaypointPlan {
+  if (pins.length === 0) {
+    const radius = bounds.loopRadius;
+    const b1 = random() * 360;
+    const b2 = (b1 + 95 + random() * 90) % 360;
+    const useThreeWaypoints =
+      targetKm >= 8 ? random() < 0.55 : random() < 0.3;
+    const b3 = (b2 + 80 + random() * 80) % 360;
+    const leg2Scale = 0.8 + random() * 0.35;
+    const leg3Scale = 0.65 + random() * 0.35;
+
+    return {
+      low: targetKm * radius.low,
+      high: targetKm * radius.high,
+      initial: targetKm * radius.initial,
+      fixed: false,
+      buildWaypoints(leg) {
+        const wp1 = destinationPoint(start.lat, start.lng, b1, leg);
+        const wp2 = destinationPoint(start.lat, start.lng, b2, leg * leg2Scale);
+        return useThreeWaypoints
+          ? [
+              start,
+              wp1,
+              wp2,
+              destinationPoint(start.lat, start.lng, b3, leg * leg3Scale),
+              start,
+            ]
+          : [start, wp1, wp2, start];
+      },
+    };
+  }
+
+  const clockwise = random() < 0.5;
+  const pinnedLoop = [start, ...orderByBearing(start, pins, clockwise), start];
+  if (pathKm(pinnedLoop) * bounds.detourFactor >= targetKm) {
+    return fixedPlan(pinnedLoop);
+  }
+
+  // Pins already supply some of the shape, so fewer free waypoints are needed.
+  const gap = largestBearingGap(
+    pins.map((pin) => bearingDegrees(start, pin)),
+    random
+  );
+  const freeBearings =
+    pins.length >= 2
+      ? [gap.from + gap.size * (0.35 + random() * 0.3)]
+      : [
+          gap.from + gap.size * (0.2 + random() * 0.2),
+          gap.from + gap.size * (0.6 + random() * 0.2),
+        ];
+  const freeScales = freeBearings.map((_, idx) =>
+    idx === 0 ? 1 : 0.8 + random() * 0.35
+  );
+
+  const radius = bounds.pinnedLoopRadius;
+  return {
+    low: targetKm * radius.low,
+    high: targetKm * radius.high,
+    initial: targetKm * radius.initial,
+    fixed: false,
+    buildWaypoints(leg) {
+      const free = freeBearings.map((bearing, idx) =>
+        destinationPoint(start.lat, start.lng, bearing % 360, leg * freeScales[idx])
+      );
+      return [start, ...orderByBearing(start, [...pins, ...free], clockwise), start];
+    },
+  };
+}
+
+export function planOutAndBack(
+  start: RoutingWaypoint,
+  targetKm: number,
+  pins: RoutingWaypoint[] = [],
+  random: RandomFn = Math.random,
+  bounds: PlanBounds = DEFAULT_PLAN_BOUNDS
+): WaypointPlan {
+  const halfKm = targetKm / 2;
+  const { detourFactor } = bounds;
+
+  if (pins.length === 0) {
+    const bearing = random() * 360;
+    return {
+      low: (halfKm / detourFactor) * 0.5,
+      high: halfKm,
+      initial: halfKm / detourFactor,
+      fixed: false,
+      buildWaypoints(distanceKm) {
+        const turnaround = destinationPoint(start.lat, start.lng, bearing, distanceKm);
+        return [start, turnaround, start];
+      },
+    };
+  }
+
+  // Visit the pins on the way out, nearest first, then keep going in the
+  // direction of the farthest one until the turnaround.
+  const byDistance = [...pins].sort(
+    (a, b) => pathKm([start, a]) - pathKm([start, b])
+  );
+  const farthest = byDistance[byDistance.length - 1];
+  const outwardKm = pathKm([start, ...byDistance]);
+  if (outwardKm * 2 * detourFactor >= targetKm) {
+    return fixedPlan([start, ...byDistance, start]);
+  }
+
+  const bearing = bearingDegrees(start, farthest);
+  const farthestKm = pathKm([start, farthest]);
+  const remainingKm = halfKm / detourFactor - outwardKm;
+
+  return {
+    low: farthestKm,
+    high: farthestKm + Math.max(remainingKm * 2, 0.5),
+    initial: farthestKm + Math.max(remainingKm, 0.1),
+    fixed: false,
+    buildWaypoints(distanceKm) {
+      const turnaround = destinationPoint(start.lat, start.lng, bearing, distanceKm);
+      return [start, ...byDistance, turnaround, start];
+    },
+  };
+}
+
+export function planPointToPoint(
+  start: RoutingWaypoint,
+  finish: RoutingWaypoint,
+  targetKm: number,
+  pins: RoutingWaypoint[] = [],
+  random: RandomFn = Math.random,
+  bounds: PlanBounds = DEFAULT_PLAN_BOUNDS
+): WaypointPlan {
+  const orderedPins = [...pins].sort(
+    (a, b) => projectOntoCourse(start, finish, a) - projectOntoCourse(start, finish, b)
+  );
+  const baseRoute = [start, ...orderedPins, finish];
+  const basePathKm = pathKm(baseRoute);
+  const targetPathKm = targetKm / bounds.detourFactor;
+
+  if (targetPathKm <= basePathKm * 1.05) {
+    return fixedPlan(baseRoute);
+  }
+
+  // Pad the run by bowing out to one side of the direct line. A single
+  // detour point makes a triangle; big paddings use two for a wider bow.
+  const courseBearing = bearingDegrees(start, finish);
+  const side = random() < 0.5 ? -1 : 1;
+  const detourBearing = (courseBearing + side * (70 + random() * 40) + 360) % 360;
+  const useBow = targetPathKm > basePathKm * 1.6;
+  const fraction = 0.3 + random() * 0.4;
+  const secondOffsetScale = 0.8 + random() * 0.4;
+
+  const alongCourse = (t: number): RoutingWaypoint => ({
+    lat: start.lat + (finish.lat - start.lat) * t,
+    lng: start.lng + (finish.lng - start.lng) * t,
+  });
+
+  // Offset that makes an isosceles detour roughly match the padded length.
+  const halfBaseKm = basePathKm / 2;
+  const initial = Math.sqrt(Math.max((targetPathKm / 2) ** 2 - halfBaseKm ** 2, 0.01));
+
+  return {
+    low: 0,
+    high: Math.max(initial * 2, targetKm * 0.5),
+    initial: useBow ? initial * 0.8 : initial,
+    fixed: false,
+    buildWaypoints(offsetKm) {
+      const detours = useBow
+        ? [
+            { t: 1 / 3, offsetKm },
+            { t: 2 / 3, offsetKm: offsetKm * secondOffsetScale },
+          ]
+        : [{ t: fraction, offsetKm }];
+
+      const detourPoints = detours.map(({ t, offsetKm: offset }) => {
+        const base = alongCourse(t);
+        return {
+          t,
+          point: destinationPoint(base.lat, base.lng, detourBearing, offset),
+        };
+      });
+      const stops = [
+        ...orderedPins.map((pin) => ({
+          t: projectOntoCourse(start, finish, pin),
+          point: pin,
+        })),
+        ...detourPoints,
+      ].sort((a, b) => a.t - b.t);
+
+      return [start, ...stops.map((stop) => stop.point), finish];
+    },
+  };
+}
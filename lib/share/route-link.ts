@@ -0,0 +1,172 @@
+import { decodePolyline, encodePolyline } from "@/lib/routing/polyline";
+
+type LngLatTuple = [number, number];
+
+type ShareableRoute = {
+  geojson: GeoJSON.Feature<GeoJSON.LineString>;
+  distance_m: number;
+  duration_s: number;
+  steps: unknown[];
+  quality: object;
+};
+
+type RouteLinkMeta = {
+  targetKm: number;
+  seed: number | null;
+};
+
+// Everything except the line travels as-is; the line is the bulk of the
+// payload, so it goes in as an encoded polyline.
+type RouteLinkPayload = {
+  v: 1;
+  km: number;
+  seed: number | null;
+  line: string;
+  route: Record<string, unknown>;
+};
+
+export type SharedRoute<T> = RouteLinkMeta & { route: T };
+
+export const ROUTE_LINK_HASH_KEY = "route";
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replaceAll("+", "-").replaceAll("/", "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replaceAll("-", "+").replaceAll("_", "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isLngLat(lng: unknown, lat: unknown) {
+  return (
+    isFiniteNumber(lng) &&
+    isFiniteNumber(lat) &&
+    Math.abs(lng) <= 180 &&
+    Math.abs(lat) <= 90
+  );
+}
+
+function isOptionalCount(value: unknown) {
+  return value === undefined || (isFiniteNumber(value) && value >= 0);
+}
+
+// Steps as the route API returns them.
+function isValidStep(value: unknown) {
+  if (!value || typeof value !== "object") return false;
+  const step = value as Record<string, unknown>;
+  const { location } = step;
+  return (
+    typeof step.instruction === "string" &&
+    isFiniteNumber(step.distance_m) &&
+    step.distance_m >= 0 &&
+    isFiniteNumber(step.duration_s) &&
+    step.duration_s >= 0 &&
+    (location === null ||
+      (Array.isArray(location) && location.length === 2 && isLngLat(location[0], location[1]))) &&
+    isOptionalCount(step.traffic_signals) &&
+    isOptionalCount(step.stop_signs)
+  );
+}
+
+// The parts of the quality summary the map reads unguarded.
+function isValidQuality(value: unknown) {
+  if (!value || typeof value !== "object") return false;
+  const quality = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(quality.score) &&
+    typeof quality.highlight === "string" &&
+    Array.isArray(quality.warnings) &&
+    quality.warnings.every((warning) => typeof warning === "string")
+  );
+}
+
+function isValidPin(value: unknown) {
+  if (!value || typeof value !== "object") return false;
+  const pin = value as Record<string, unknown>;
+  return isLngLat(pin.lng, pin.lat);
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Packs a generated route into a URL-safe string, so a link can redraw it
+// without asking the router again.
+export async function encodeRouteLink(
+  route: ShareableRoute,
+  meta: RouteLinkMeta
+): Promise<string> {
+  const { geojson, ...rest } = route;
+  const payload: RouteLinkPayload = {
+    v: 1,
+    km: meta.targetKm,
+    seed: meta.seed,
+    line: encodePolyline(geojson.geometry.coordinates as LngLatTuple[]),
+    route: rest,
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await transform(json, new CompressionStream("deflate-raw")));
+}
+
+// Returns null for anything that isn't a well-formed link from encodeRouteLink,
+// down to each coordinate and step.
+export async function decodeRouteLink<T extends ShareableRoute>(
+  value: string
+): Promise<SharedRoute<T> | null> {
+  let payload: RouteLinkPayload;
+  try {
+    const bytes = await transform(
+      fromBase64Url(value),
+      new DecompressionStream("deflate-raw")
+    );
+    payload = JSON.parse(new TextDecoder().decode(bytes)) as RouteLinkPayload;
+  } catch {
+    return null;
+  }
+
+  if (payload?.v !== 1 || typeof payload.line !== "string") return null;
+  if (!isFiniteNumber(payload.km) || payload.km <= 0) return null;
+
+  const rest = payload.route;
+  if (
+    !rest ||
+    typeof rest !== "object" ||
+    !isFiniteNumber(rest.distance_m) ||
+    !isFiniteNumber(rest.duration_s) ||
+    !Array.isArray(rest.steps) ||
+    !rest.steps.every(isValidStep) ||
+    (rest.pins !== undefined && (!Array.isArray(rest.pins) || !rest.pins.every(isValidPin))) ||
+    !isValidQuality(rest.quality)
+  ) {
+    return null;
+  }
+
+  const coordinates = decodePolyline(payload.line);
+  if (coordinates.length < 2) return null;
+  if (!coordinates.every(([lng, lat]) => isLngLat(lng, lat))) return null;
+
+  const geojson: GeoJSON.Feature<GeoJSON.LineString> = {
+    type: "Feature",
+    geometry: { type: "LineString", coordinates },
+    properties: {},
+  };
+
+  return {
+    targetKm: payload.km,
+    seed: typeof payload.seed === "number" ? payload.seed : null,
+    route: { ...rest, geojson } as unknown as T,
+  };
+}
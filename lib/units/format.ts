@@ -0,0 +1,75 @@
+export type UnitSystem = "metric" | "imperial";
+
+export const METERS_PER_MILE = 1609.344;
+export const METERS_PER_FOOT = 0.3048;
+
+// Regions that still measure road distance in miles.
+const IMPERIAL_REGIONS = new Set(["US", "LR", "MM"]);
+
+// Picks a unit system from a BCP 47 locale. A bare language is expanded to
+// its likely region, so "en" counts as en-US.
+export function detectUnitSystem(locale: string | undefined): UnitSystem {
+  if (!locale) return "metric";
+  try {
+    const region = new Intl.Locale(locale).maximize().region;
+    return region && IMPERIAL_REGIONS.has(region) ? "imperial" : "metric";
+  } catch {
+    return "metric";
+  }
+}
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return value === "metric" || value === "imperial";
+}
+
+export function distanceUnit(units: UnitSystem) {
+  return units === "imperial" ? "mi" : "km";
+}
+
+// Meters to kilometers or miles.
+export function toDistanceUnits(meters: number, units: UnitSystem) {
+  return meters / (units === "imperial" ? METERS_PER_MILE : 1000);
+}
+
+// Kilometers or miles to meters.
+export function fromDistanceUnits(value: number, units: UnitSystem) {
+  return value * (units === "imperial" ? METERS_PER_MILE : 1000);
+}
+
+export function formatDistance(meters: number, units: UnitSystem, digits = 2) {
+  return `${toDistanceUnits(meters, units).toFixed(digits)} ${distanceUnit(units)}`;
+}
+
+// Short legs read better in feet or meters than as a fraction of a mile.
+export function formatStepDistance(meters: number, units: UnitSystem) {
+  if (units === "metric") return `${Math.round(meters)} m`;
+  if (meters < 0.1 * METERS_PER_MILE) {
+    return `${Math.round(meters / METERS_PER_FOOT / 10) * 10} ft`;
+  }
+  return formatDistance(meters, units, 1);
+}
+
+export function formatElevation(meters: number, units: UnitSystem) {
+  return units === "imperial"
+    ? `${Math.round(meters / METERS_PER_FOOT)} ft`
+    : `${Math.round(meters)} m`;
+}
+
+// Seconds per km to seconds per km or mile.
+export function toPaceUnits(secondsPerKm: number, units: UnitSystem) {
+  return units === "imperial" ? (secondsPerKm * METERS_PER_MILE) / 1000 : secondsPerKm;
+}
+
+// Seconds per km or mile back to seconds per km.
+export function fromPaceUnits(seconds: number, units: UnitSystem) {
+  return units === "imperial" ? (seconds * 1000) / METERS_PER_MILE : seconds;
+}
+
+export function formatClock(seconds: number) {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, "0")}`;
+}
+
+export function formatPace(secondsPerKm: number, units: UnitSystem) {
+  return `${formatClock(toPaceUnits(secondsPerKm, units))} /${distanceUnit(units)}`;
+}